@@ -1 +1,14 @@
-console.log("Hello via Bun!");
\ No newline at end of file
+export { defineConfig } from "./src/core/config";
+export type {
+  FieldDefinition,
+  FieldGenerator,
+  FieldType,
+  HookContext,
+  HookRow,
+  MockliteConfig,
+  PaginationOptions,
+  RelationDefinition,
+  RouteDefinition,
+  TableHooks,
+  TableSchema,
+} from "./src/core/types";
@@ -1,33 +1,197 @@
-import { loadConfig } from "../../core/config";
-import { MockDatabase } from "../../core/db";
+import fs from "fs-extra";
+import { loadConfig, resolveConfigPath } from "../../core/config";
+import { MockDatabase, SchemaChangedError } from "../../core/db";
+import { Migrator, printMigrationPlan } from "../../core/migrator";
 import { Seeder } from "../../core/seeder";
 import { MockServer } from "../../core/server";
+import type { MockliteConfig } from "../../core/types";
+import type { ValidationIssue } from "../../core/validator";
 import pc from "picocolors";
 
 /**
  * Starts the Mocklite server in development mode.
  * Loads config, sets up the database, seeds data, and starts the server.
+ * With `watch` enabled, config edits are applied without restarting.
  *
- * @param options - CLI options including port and schema path.
+ * @param options - CLI options including port, schema path, persistence, watch, seed and scenario flags.
  */
-export async function devCommand(options: { port: number; schema?: string }) {
+export async function devCommand(options: {
+  port: number;
+  schema?: string;
+  persist?: boolean;
+  reset?: boolean;
+  watch?: boolean;
+  seed?: number;
+  scenario?: string;
+  adminToken?: string;
+}) {
   console.log(pc.cyan(`🚀 Starting MockLite Dev Server...`));
 
   const config = await loadConfig(options.schema);
   if (!config) return;
+  if (!applyCliOverrides(config, options)) process.exit(1);
 
-  const dbEngine = new MockDatabase();
+  if (options.scenario !== undefined && !config.scenarios?.[options.scenario]) {
+    const available = Object.keys(config.scenarios ?? {});
+    console.error(pc.red(`❌ Unknown scenario "${options.scenario}"`));
+    console.error(
+      pc.yellow(
+        available.length > 0
+          ? `   Available scenarios: ${available.join(", ")}`
+          : `   The config defines no scenarios.`
+      )
+    );
+    process.exit(1);
+  }
+
+  const dbEngine = new MockDatabase({
+    persist: options.persist ?? config.persist,
+    reset: options.reset,
+  });
   try {
     await dbEngine.setup(config);
 
     const seeder = new Seeder(dbEngine.getInstance());
-    await seeder.run(config);
+    await seeder.run(config, options.scenario);
 
-    const server = new MockServer(dbEngine.getInstance(), config);
+    const server = new MockServer(dbEngine, config, options.scenario);
     server.start(options.port);
+
+    if (options.watch) {
+      watchConfig(options, dbEngine, server);
+    }
   } catch (err) {
+    if (err instanceof SchemaChangedError) {
+      console.error(pc.red(`❌ ${err.message}`));
+      console.error(
+        pc.yellow(
+          `   Run ${pc.cyan(
+            "mocklite migrate"
+          )} to update it, or start with --reset to recreate it.`
+        )
+      );
+      process.exit(1);
+    }
+
     console.error(pc.red("❌ Error:"));
     console.error(err);
     process.exit(1);
   }
 }
+
+/**
+ * Applies CLI flags that take precedence over the config file.
+ * Invalid values are reported like config problems and leave the config unchanged.
+ *
+ * @param config - The loaded configuration, modified in place.
+ * @param options - The CLI options.
+ * @returns Whether every flag was valid.
+ */
+function applyCliOverrides(
+  config: MockliteConfig,
+  options: { seed?: number; adminToken?: string }
+) {
+  const issues: ValidationIssue[] = [];
+
+  if (options.seed !== undefined) {
+    if (/^\d+$/.test(String(options.seed))) {
+      config.fakerSeed = Number(options.seed);
+    } else {
+      issues.push({
+        path: "--seed",
+        message: "Must be a non-negative integer",
+      });
+    }
+  }
+  if (options.adminToken !== undefined) {
+    if (String(options.adminToken) !== "") {
+      config.adminToken = String(options.adminToken);
+    } else {
+      issues.push({
+        path: "--admin-token",
+        message: "Must be a non-empty string",
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    const label = issues.length === 1 ? "problem" : "problems";
+    console.error(pc.red(`❌ Invalid options (${issues.length} ${label})`));
+    for (const issue of issues) {
+      console.error(
+        `   ${pc.yellow(issue.path)} ${pc.dim("→")} ${issue.message}`
+      );
+    }
+  }
+  return issues.length === 0;
+}
+
+/**
+ * Watches the config file and hot-reloads the server when it changes.
+ * Each edit is re-validated and the schema change is migrated into the database.
+ * Invalid edits leave the last good config running.
+ *
+ * @param options - The CLI options the server was started with.
+ * @param dbEngine - The database the server is running against.
+ * @param server - The running server.
+ */
+function watchConfig(
+  options: { schema?: string; seed?: number; adminToken?: string },
+  dbEngine: MockDatabase,
+  server: MockServer
+) {
+  const configPath = resolveConfigPath(options.schema);
+  const migrator = new Migrator(dbEngine);
+  let reloading: Promise<void> = Promise.resolve();
+
+  const reload = async () => {
+    console.log(pc.cyan("\n🔁 Config changed, reloading..."));
+
+    const config = await loadConfig(options.schema);
+    if (!config) {
+      console.log(pc.yellow("   Keeping the last valid config running."));
+      return;
+    }
+    applyCliOverrides(config, options);
+
+    try {
+      const plan = await migrator.plan(config.schema);
+      if (plan) {
+        printMigrationPlan(plan);
+        await migrator.apply(plan, config.schema);
+
+        // Only seed tables the migration just created; existing data is kept
+        const created = new Set(
+          plan.steps.flatMap((step) =>
+            step.kind === "createTable" ? [step.table.table] : []
+          )
+        );
+        if (created.size > 0) {
+          const seeder = new Seeder(dbEngine.getInstance());
+          await seeder.run(
+            {
+              ...config,
+              schema: config.schema.filter((t) => created.has(t.table)),
+            },
+            server.scenario && config.scenarios?.[server.scenario]
+              ? server.scenario
+              : undefined
+          );
+        }
+      }
+
+      server.reload(config);
+      console.log(pc.green("✓ Config reloaded"));
+    } catch (err) {
+      console.error(pc.red("❌ Failed to apply config change:"));
+      console.error(err);
+      console.log(pc.yellow("   Keeping the last valid config running."));
+    }
+  };
+
+  // Polling survives editors that save by replacing the file
+  fs.watchFile(configPath, { interval: 300 }, (curr, prev) => {
+    if (curr.mtimeMs === prev.mtimeMs) return;
+    reloading = reloading.then(reload);
+  });
+}
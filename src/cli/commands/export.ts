@@ -0,0 +1,97 @@
+import fs from "fs-extra";
+import path from "path";
+import pc from "picocolors";
+import { loadConfig } from "../../core/config";
+import { formatCsv } from "../../core/csv";
+import { getDatabasePath, MockDatabase } from "../../core/db";
+import { fromStorageRow } from "../../core/fields";
+import { findTable } from "../../core/relations";
+
+/**
+ * Exports the rows of a table from the database in `.mocklite` as JSON or CSV.
+ * Prints them to stdout, or writes them to a file when `out` is given.
+ *
+ * @param tableName - The table to export.
+ * @param options - CLI options including schema path, format and output file.
+ */
+export async function exportCommand(
+  tableName: string,
+  options: { schema?: string; format?: string; out?: string }
+) {
+  const format = options.format ?? "json";
+  if (format !== "json" && format !== "csv") {
+    console.error(pc.red(`❌ Unknown format "${format}"; use json or csv.`));
+    process.exit(1);
+  }
+
+  const config = await loadConfig(options.schema);
+  if (!config) process.exit(1);
+
+  const table = findTable(config, tableName);
+  if (!table) {
+    console.error(pc.red(`❌ Unknown table "${tableName}"`));
+    process.exit(1);
+  }
+
+  const dbEngine = await openDatabase(tableName);
+  try {
+    const rows = await dbEngine
+      .getInstance()
+      .selectFrom(tableName)
+      .selectAll()
+      .execute();
+    const data = rows.map((row) => fromStorageRow(table, row));
+
+    const output =
+      format === "csv"
+        ? formatCsv(Object.keys(table.fields), data)
+        : JSON.stringify(data, null, 2) + "\n";
+
+    if (!options.out) {
+      process.stdout.write(output);
+      return;
+    }
+
+    const target = path.resolve(process.cwd(), options.out);
+    await fs.outputFile(target, output);
+    console.log(
+      pc.green(
+        `✅ Exported ${rows.length} rows from ${tableName} to ${options.out}`
+      )
+    );
+  } catch (error) {
+    console.error(pc.red("❌ Export failed:"));
+    console.error(error);
+    process.exit(1);
+  } finally {
+    await dbEngine.getInstance().destroy();
+  }
+}
+
+/**
+ * Opens the existing database in `.mocklite` (the one a running server uses) without resetting it.
+ * Exits if there is no database or it has no such table.
+ *
+ * @param tableName - The table the command works on.
+ * @returns The database.
+ */
+export async function openDatabase(tableName: string) {
+  if (!(await fs.pathExists(getDatabasePath()))) {
+    console.error(pc.red("❌ No database found in .mocklite."));
+    console.error(
+      pc.yellow(`   Start the server with ${pc.cyan("mocklite dev")} first.`)
+    );
+    process.exit(1);
+  }
+
+  const dbEngine = new MockDatabase({ persist: true });
+  const stored = await dbEngine.getStoredSchema();
+  if (!stored?.some((t) => t.table === tableName)) {
+    console.error(pc.red(`❌ The database has no table "${tableName}".`));
+    console.error(
+      pc.yellow(`   Run ${pc.cyan("mocklite migrate")} to update it.`)
+    );
+    process.exit(1);
+  }
+  return dbEngine;
+}
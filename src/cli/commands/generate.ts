@@ -0,0 +1,55 @@
+import fs from "fs-extra";
+import path from "path";
+import pc from "picocolors";
+import { loadConfig } from "../../core/config";
+import { generateTypes } from "../../core/typegen";
+
+/**
+ * Generates code from the mock schema. Currently supports `types`:
+ * TypeScript interfaces per table, optionally with a typed fetch client.
+ *
+ * @param target - What to generate (only "types").
+ * @param options - CLI options including schema path, output file and client flag.
+ */
+export async function generateCommand(
+  target: string,
+  options: { schema?: string; out?: string; client?: boolean }
+) {
+  if (target !== "types") {
+    console.error(pc.red(`❌ Unknown generate target "${target}".`));
+    console.log(pc.dim(`   Available targets: types`));
+    process.exit(1);
+  }
+
+  // The client contains runtime code, so it cannot live in a declaration file
+  if (options.client && options.out?.endsWith(".d.ts")) {
+    console.error(pc.red("❌ --client needs a .ts output file, not .d.ts"));
+    process.exit(1);
+  }
+
+  const config = await loadConfig(options.schema);
+  if (!config) process.exit(1);
+
+  const source = generateTypes(config, { client: options.client });
+
+  if (!options.out) {
+    console.log(source);
+    return;
+  }
+
+  try {
+    await fs.outputFile(path.resolve(process.cwd(), options.out), source);
+    console.log(
+      pc.green(`✅ Types written to ${options.out}`) +
+        pc.dim(
+          ` (${config.schema.length} tables${
+            options.client ? ", with client" : ""
+          })`
+        )
+    );
+  } catch (error) {
+    console.error(pc.red("❌ Failed to write types:"));
+    console.error(error);
+    process.exit(1);
+  }
+}
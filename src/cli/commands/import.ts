@@ -0,0 +1,122 @@
+import fs from "fs-extra";
+import { sql, type Kysely } from "kysely";
+import path from "path";
+import pc from "picocolors";
+import { loadConfig } from "../../core/config";
+import { toStorageRow } from "../../core/fields";
+import { readDataFile } from "../../core/fixtures";
+import { findTable } from "../../core/relations";
+import { openDatabase } from "./export";
+
+/**
+ * Imports rows from a JSON, CSV or NDJSON file into a table of the database in `.mocklite`.
+ * The rows are inserted in a single transaction, so a failing row leaves the table unchanged.
+ * With `replace`, the import is rolled back if rows of other tables would be left referencing
+ * rows that are gone, or if an imported row references a missing row.
+ *
+ * @param tableName - The table to import into.
+ * @param file - The file to read.
+ * @param options - CLI options including schema path and replace flag.
+ */
+export async function importCommand(
+  tableName: string,
+  file: string,
+  options: { schema?: string; replace?: boolean }
+) {
+  const config = await loadConfig(options.schema);
+  if (!config) process.exit(1);
+
+  const table = findTable(config, tableName);
+  if (!table) {
+    console.error(pc.red(`❌ Unknown table "${tableName}"`));
+    process.exit(1);
+  }
+
+  const source = path.resolve(process.cwd(), file);
+  if (!(await fs.pathExists(source))) {
+    console.error(pc.red(`❌ ${file} not found.`));
+    process.exit(1);
+  }
+
+  const dbEngine = await openDatabase(tableName);
+  try {
+    const rows = await readDataFile(source);
+
+    const unknown = new Set(
+      rows
+        .flatMap((row) => Object.keys(row))
+        .filter((k) => !(k in table.fields))
+    );
+    if (unknown.size > 0) {
+      console.error(
+        pc.red(`❌ Unknown fields for ${tableName}: ${[...unknown].join(", ")}`)
+      );
+      process.exit(1);
+    }
+
+    const insertRows = async (db: Kysely<any>) => {
+      if (options.replace) {
+        await db.deleteFrom(tableName).execute();
+      }
+      for (const row of rows) {
+        await db
+          .insertInto(tableName)
+          .values(toStorageRow(table, row))
+          .execute();
+      }
+    };
+
+    if (options.replace) {
+      // Replacing must not cascade into the rows of other tables that reference the old ones,
+      // so enforcement is off and the references are checked once the new rows are in
+      await dbEngine.withTransaction(async (database) => {
+        const db = database.getInstance();
+        await insertRows(db);
+        await checkForeignKeys(db, tableName);
+      });
+    } else {
+      await dbEngine.getInstance().transaction().execute(insertRows);
+    }
+
+    console.log(
+      pc.green(`✅ Imported ${rows.length} rows into ${tableName}`) +
+        (options.replace ? pc.dim(" (existing rows replaced)") : "")
+    );
+  } catch (error) {
+    console.error(pc.red("❌ Import failed:"));
+    console.error(error);
+    process.exit(1);
+  } finally {
+    await dbEngine.getInstance().destroy();
+  }
+}
+
+/**
+ * Checks the FK references into and out of a table, which SQLite does not enforce while they are switched off.
+ *
+ * @param db - The database, inside the import's transaction.
+ * @param tableName - The table being imported.
+ * @throws {Error} If any reference points at a missing row.
+ */
+async function checkForeignKeys(db: Kysely<any>, tableName: string) {
+  const { rows } = await sql<{
+    table: string;
+    parent: string;
+  }>`PRAGMA foreign_key_check`.execute(db);
+
+  const counts = new Map<string, number>();
+  for (const { table, parent } of rows) {
+    if (table !== tableName && parent !== tableName) continue;
+    const key = `${table} → ${parent}`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  if (counts.size > 0) {
+    const details = [...counts]
+      .map(([link, count]) => `${count} in ${link}`)
+      .join(", ");
+    throw new Error(
+      `Rows would reference missing rows (${details}); nothing was imported`
+    );
+  }
+}
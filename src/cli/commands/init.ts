@@ -1,13 +1,19 @@
 import fs from "fs-extra";
 import path from "path";
 import pc from "picocolors";
+import YAML from "yaml";
 import { DEFAULT_CONFIG } from "../../core/defaults";
+import { configFromOpenApi } from "../../core/openapi-import";
+import { validateConfig } from "../../core/validator";
+import { printValidationIssues } from "../../core/config";
 
 /**
  * Initializes a new Mocklite project by creating a default configuration file.
  * Helper to bootstrap a new project.
+ *
+ * @param options - CLI options; `fromOpenapi` builds the schema from an OpenAPI (JSON or YAML) file.
  */
-export async function initCommand() {
+export async function initCommand(options: { fromOpenapi?: string } = {}) {
   const fileName = "mocklite.config.json";
   const targetPath = path.resolve(process.cwd(), fileName);
 
@@ -17,8 +23,15 @@ export async function initCommand() {
     return;
   }
 
+  let config: object = DEFAULT_CONFIG;
+  if (options.fromOpenapi) {
+    const imported = await importOpenApi(options.fromOpenapi, fileName);
+    if (!imported) process.exit(1);
+    config = imported;
+  }
+
   try {
-    await fs.writeJSON(targetPath, DEFAULT_CONFIG, { spaces: 2 });
+    await fs.writeJSON(targetPath, config, { spaces: 2 });
 
     console.log(pc.green(`✅ Success! Created ${fileName}`));
     console.log(pc.dim("   You can now edit the file to define your schema."));
@@ -29,3 +42,38 @@ export async function initCommand() {
     console.error(error);
   }
 }
+
+/**
+ * Reads an OpenAPI document and converts it into a config.
+ * Unmapped parts and validation problems are printed but do not stop the import.
+ *
+ * @param specPath - Path to the OpenAPI document.
+ * @param fileName - Name of the config file being created, used in messages.
+ * @returns The generated config, or null if the document cannot be read.
+ */
+async function importOpenApi(specPath: string, fileName: string) {
+  try {
+    // YAML is a superset of JSON, so one parser handles both
+    const spec = YAML.parse(await fs.readFile(specPath, "utf8"));
+    const { config, warnings } = configFromOpenApi(spec);
+
+    console.log(
+      pc.cyan(`📥 Imported ${config.schema.length} tables from ${specPath}`)
+    );
+    for (const warning of warnings) {
+      console.log(pc.dim(`   ${warning}`));
+    }
+
+    const issues = validateConfig(config);
+    if (issues.length > 0) {
+      printValidationIssues(fileName, issues);
+      console.log(pc.dim("   Fix these in the generated config."));
+    }
+
+    return config;
+  } catch (error) {
+    console.error(pc.red(`❌ Failed to import ${specPath}:`));
+    console.error(error instanceof Error ? error.message : error);
+    return null;
+  }
+}
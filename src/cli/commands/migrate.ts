@@ -0,0 +1,50 @@
+import pc from "picocolors";
+import { loadConfig } from "../../core/config";
+import { MockDatabase } from "../../core/db";
+import { Migrator, printMigrationPlan } from "../../core/migrator";
+
+/**
+ * Migrates the persisted database to match the current config.
+ * Prints the migration plan and applies it unless running in dry-run mode.
+ *
+ * @param options - CLI options including schema path and dry-run flag.
+ */
+export async function migrateCommand(options: {
+  schema?: string;
+  dryRun?: boolean;
+}) {
+  const config = await loadConfig(options.schema);
+  if (!config) process.exit(1);
+
+  const dbEngine = new MockDatabase({ persist: true });
+  const migrator = new Migrator(dbEngine);
+
+  try {
+    const plan = await migrator.plan(config.schema);
+    if (!plan) {
+      console.log(
+        pc.yellow("⚠️  No persisted schema found; nothing to migrate.")
+      );
+      console.log(
+        pc.dim(`   Run ${pc.cyan("mocklite dev --persist")} to create one.`)
+      );
+      return;
+    }
+
+    printMigrationPlan(plan);
+
+    if (options.dryRun) {
+      console.log(pc.dim("\nDry run: no changes were applied."));
+      return;
+    }
+
+    await migrator.apply(plan, config.schema);
+    if (plan.steps.length > 0) {
+      console.log(pc.green("✨ Migration complete!"));
+    }
+  } catch (err) {
+    console.error(pc.red("❌ Migration failed:"));
+    console.error(err);
+    process.exit(1);
+  }
+}
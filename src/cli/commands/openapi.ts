@@ -0,0 +1,39 @@
+import fs from "fs-extra";
+import path from "path";
+import pc from "picocolors";
+import { loadConfig } from "../../core/config";
+import { generateOpenApi } from "../../core/openapi";
+
+/**
+ * Generates an OpenAPI 3.1 document for the mock server's routes.
+ * Prints it to stdout, or writes it to a file when `out` is given.
+ *
+ * @param options - CLI options including schema path and output file.
+ */
+export async function openapiCommand(options: {
+  schema?: string;
+  out?: string;
+}) {
+  const config = await loadConfig(options.schema);
+  if (!config) process.exit(1);
+
+  const document = generateOpenApi(
+    config,
+    `http://localhost:${config.port ?? 3000}`
+  );
+
+  if (!options.out) {
+    console.log(JSON.stringify(document, null, 2));
+    return;
+  }
+
+  try {
+    const target = path.resolve(process.cwd(), options.out);
+    await fs.outputJSON(target, document, { spaces: 2 });
+    console.log(pc.green(`✅ OpenAPI document written to ${options.out}`));
+  } catch (error) {
+    console.error(pc.red("❌ Failed to write OpenAPI document:"));
+    console.error(error);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,21 @@
+import pc from "picocolors";
+import { loadConfig } from "../../core/config";
+
+/**
+ * Validates the Mocklite configuration without starting the server.
+ * Exits with a non-zero code when the config is missing or invalid.
+ *
+ * @param options - CLI options including schema path.
+ */
+export async function validateCommand(options: { schema?: string }) {
+  const config = await loadConfig(options.schema);
+  if (!config) {
+    process.exit(1);
+  }
+
+  const tables = config.schema.length;
+  console.log(
+    pc.green(`✅ Config is valid`) +
+      pc.dim(` (${tables} ${tables === 1 ? "table" : "tables"})`)
+  );
+}
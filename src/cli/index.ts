@@ -3,6 +3,12 @@ import pc from "picocolors";
 import { version } from "../../package.json";
 import { initCommand } from "./commands/init";
 import { devCommand } from "./commands/dev";
+import { validateCommand } from "./commands/validate";
+import { migrateCommand } from "./commands/migrate";
+import { openapiCommand } from "./commands/openapi";
+import { generateCommand } from "./commands/generate";
+import { importCommand } from "./commands/import";
+import { exportCommand } from "./commands/export";
 
 /**
  * The main CLI instance for Mocklite.
@@ -13,13 +19,23 @@ const cli = cac("mocklite");
 // Define the 'init' command
 cli
   .command("init", "Initialize a new mocklite config")
-  .action(async () => await initCommand());
+  .option("--from-openapi <file>", "Build the schema from an OpenAPI spec")
+  .action(async (options) => await initCommand(options));
 
 // Define the 'dev' command
 cli
   .command("dev", "Start the mock server in development mode")
   .option("--port <port>", "Port to listen on", { default: 3000 })
   .option("--schema <path>", "Path to custom config file")
+  .option("--persist", "Keep the database between restarts")
+  .option("--reset", "Delete the persisted database before starting")
+  .option("--seed <n>", "Faker seed for reproducible data (overrides config)")
+  .option(
+    "--scenario <name>",
+    "Seed the database with a scenario from the config"
+  )
+  .option("--admin-token <token>", "Require this token for the admin API")
+  .option("--no-watch", "Disable hot reload of the config file")
   .action(async (options) => {
     await devCommand(options);
   });
@@ -29,10 +45,81 @@ cli
   .command("start", "Start the mock server")
   .option("--port <port>", "Port to listen on", { default: 3000 })
   .option("--schema <path>", "Path to custom config file")
+  .option("--persist", "Keep the database between restarts")
+  .option("--reset", "Delete the persisted database before starting")
+  .option("--seed <n>", "Faker seed for reproducible data (overrides config)")
+  .option(
+    "--scenario <name>",
+    "Seed the database with a scenario from the config"
+  )
+  .option("--admin-token <token>", "Require this token for the admin API")
   .action(async (options) => {
     await devCommand(options);
   });
 
+// Define the 'validate' command
+cli
+  .command("validate", "Validate the mocklite config without starting")
+  .option("--schema <path>", "Path to custom config file")
+  .action(async (options) => {
+    await validateCommand(options);
+  });
+
+// Define the 'migrate' command
+cli
+  .command("migrate", "Migrate the persisted database to the current config")
+  .option("--schema <path>", "Path to custom config file")
+  .option("--dry-run", "Print the migration plan without applying it")
+  .action(async (options) => {
+    await migrateCommand(options);
+  });
+
+// Define the 'openapi' command
+cli
+  .command("openapi", "Generate an OpenAPI 3.1 document from the config")
+  .option("--schema <path>", "Path to custom config file")
+  .option("--out <file>", "Write the document to a file instead of stdout")
+  .action(async (options) => {
+    await openapiCommand(options);
+  });
+
+// Define the 'generate' command
+cli
+  .command("generate <target>", "Generate code from the schema (target: types)")
+  .option("--schema <path>", "Path to custom config file")
+  .option("--out <file>", "Write to a file instead of stdout")
+  .option("--client", "Also emit a typed fetch client")
+  .action(async (target, options) => {
+    await generateCommand(target, options);
+  });
+
+// Define the 'import' command
+cli
+  .command(
+    "import <table> <file>",
+    "Import rows from a JSON, CSV or NDJSON file"
+  )
+  .option("--schema <path>", "Path to custom config file")
+  .option(
+    "--replace",
+    "Delete the table's existing rows first (fails if other rows still reference them)"
+  )
+  .action(async (table, file, options) => {
+    await importCommand(table, file, options);
+  });
+
+// Define the 'export' command
+cli
+  .command("export <table>", "Export a table's rows as JSON or CSV")
+  .option("--schema <path>", "Path to custom config file")
+  .option("--format <format>", "Output format: json or csv", {
+    default: "json",
+  })
+  .option("--out <file>", "Write to a file instead of stdout")
+  .action(async (table, options) => {
+    await exportCommand(table, options);
+  });
+
 cli.help();
 cli.version(version);
 
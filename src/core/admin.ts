@@ -0,0 +1,157 @@
+import { Hono } from "hono";
+import { bearerAuth } from "hono/bearer-auth";
+import { SNAPSHOT_NAME, SnapshotError, type MockDatabase } from "./db";
+import { serializeField } from "./fields";
+import type { MockliteConfig } from "./types";
+
+/**
+ * The server operations exposed through the admin API.
+ */
+export interface AdminActions {
+  /** The active scenario, if any. */
+  readonly scenario: string | undefined;
+  /** The config the server is running with. */
+  getConfig(): MockliteConfig;
+  /** The scenarios defined in the config. */
+  scenarioNames(): string[];
+  /** Clears the database and seeds it for a scenario (or the default seed when omitted). */
+  useScenario(name?: string): Promise<void>;
+  /** Deletes every row without seeding again. */
+  reset(): Promise<void>;
+  /** Replaces the database with a snapshot, which leaves no scenario active. */
+  restore(name: string): Promise<void>;
+}
+
+/**
+ * The path the admin API is mounted at.
+ */
+export const ADMIN_PREFIX = "/__mocklite";
+
+/**
+ * Builds the admin API used by tests to control the server's data.
+ * When a token is set, every request must send it as `Authorization: Bearer <token>`.
+ *
+ * - `POST /reset`: deletes every row.
+ * - `POST /reseed`: clears the database and seeds it again, keeping the active scenario.
+ * - `GET /snapshots`, `POST /snapshot/:name`, `POST /restore/:name`, `DELETE /snapshot/:name`: manage snapshots.
+ *   A restore leaves no scenario active.
+ * - `GET /scenarios`, `POST /scenario/:name`, `DELETE /scenario`: switch scenarios.
+ * - `GET /config`: the running config.
+ *
+ * @param actions - The server operations.
+ * @param database - The database holding the snapshots.
+ * @param token - The token required to call the API.
+ * @returns A Hono app to mount at `ADMIN_PREFIX`.
+ */
+export function createAdminApp(
+  actions: AdminActions,
+  database: MockDatabase,
+  token?: string
+) {
+  const admin = new Hono();
+
+  if (token) {
+    admin.use("*", bearerAuth({ token }));
+  }
+
+  admin.post("/reset", async (c) => {
+    await actions.reset();
+    return c.json({ ok: true });
+  });
+
+  admin.post("/reseed", async (c) => {
+    await actions.useScenario(actions.scenario);
+    return c.json({ ok: true, scenario: actions.scenario ?? null });
+  });
+
+  admin.get("/snapshots", (c) =>
+    c.json({ snapshots: database.listSnapshots() })
+  );
+
+  admin.post("/snapshot/:name", async (c) => {
+    const name = c.req.param("name");
+    if (!SNAPSHOT_NAME.test(name)) {
+      return c.json(
+        {
+          error: 'Snapshot names may only contain letters, digits, "_" and "-"',
+        },
+        400
+      );
+    }
+
+    await database.snapshot(name);
+    return c.json({ ok: true, snapshot: name }, 201);
+  });
+
+  admin.post("/restore/:name", async (c) => {
+    const name = c.req.param("name");
+    if (!database.listSnapshots().includes(name)) {
+      return c.json({ error: `Snapshot "${name}" does not exist` }, 404);
+    }
+
+    try {
+      await actions.restore(name);
+    } catch (err) {
+      if (err instanceof SnapshotError) {
+        return c.json({ error: err.message }, 409);
+      }
+      throw err;
+    }
+    return c.json({ ok: true, snapshot: name });
+  });
+
+  admin.delete("/snapshot/:name", (c) => {
+    const name = c.req.param("name");
+    if (!SNAPSHOT_NAME.test(name) || !database.deleteSnapshot(name)) {
+      return c.json({ error: `Snapshot "${name}" does not exist` }, 404);
+    }
+    return c.body(null, 204);
+  });
+
+  admin.get("/scenarios", (c) =>
+    c.json({
+      active: actions.scenario ?? null,
+      scenarios: actions.scenarioNames(),
+    })
+  );
+
+  admin.post("/scenario/:name", async (c) => {
+    const name = c.req.param("name");
+    if (!actions.scenarioNames().includes(name)) {
+      return c.json({ error: `Unknown scenario "${name}"` }, 404);
+    }
+
+    await actions.useScenario(name);
+    return c.json({ active: name });
+  });
+
+  admin.delete("/scenario", async (c) => {
+    await actions.useScenario();
+    return c.json({ active: null });
+  });
+
+  admin.get("/config", (c) => c.json(publicConfig(actions.getConfig())));
+
+  return admin;
+}
+
+/**
+ * Prepares the config for display: generator functions are shown by their column type,
+ * hooks by name, and the admin token is left out.
+ */
+function publicConfig(config: MockliteConfig) {
+  const { adminToken, ...rest } = config;
+  return {
+    ...rest,
+    schema: config.schema.map(({ hooks, ...table }) => ({
+      ...table,
+      fields: Object.fromEntries(
+        Object.entries(table.fields).map(([name, def]) => [
+          name,
+          serializeField(def),
+        ])
+      ),
+      ...(hooks ? { hooks: Object.keys(hooks) } : {}),
+    })),
+  };
+}
@@ -0,0 +1,265 @@
+import { resolveFakerPath, resolveSqlType } from "./fields";
+import { findRelation, findTable, type Relation } from "./relations";
+import { EXPRESSION } from "./template";
+import type { FieldType, MockliteConfig, SqlType, TableSchema } from "./types";
+
+/**
+ * Matches a reference to another value of the row: a field (`$createdAt`) or a field
+ * of the parent row linked by a BelongsTo relation (`$author.companyId`).
+ */
+export const REFERENCE = /^\$([A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*)$/;
+
+/**
+ * The field type rendering `value` as a text template (e.g., "{{firstName}}.{{lastName}}@acme.test").
+ */
+export const TEMPLATE_TYPE = "template";
+
+/**
+ * Placeholder values standing in for referenced fields when inferring a column type.
+ */
+const SAMPLE_VALUES: Record<SqlType, unknown> = {
+  integer: 1,
+  real: 1.5,
+  text: "text",
+  boolean: true,
+  json: {},
+  datetime: new Date("2025-01-01T00:00:00.000Z"),
+};
+
+/**
+ * A resolved reference to a value a computed field depends on.
+ */
+export interface FieldReference {
+  /** The referenced field, on the row itself or on the parent row. */
+  field: string;
+  /** The BelongsTo relation leading to the parent row, for parent references. */
+  relation?: Relation;
+}
+
+/**
+ * Lists the paths a field definition references: a `$` reference used as the field's type,
+ * the `{{ }}` placeholders of a template (except Faker expressions) and `$` references in Faker options.
+ *
+ * @param def - The field definition.
+ * @returns The referenced paths (e.g., "createdAt" or "author.companyId"), in order.
+ */
+export function getReferencePaths(def: FieldType): string[] {
+  const source = typeof def === "object" ? def.type : def;
+  if (typeof source !== "string") return [];
+
+  const copy = source.match(REFERENCE);
+  if (copy) return [copy[1]!];
+  if (typeof def !== "object") return [];
+
+  if (source === TEMPLATE_TYPE) {
+    return [...(def.value ?? "").matchAll(EXPRESSION)]
+      .map(([, expression]) => expression!)
+      .filter((expression) => !expression.startsWith("faker."));
+  }
+
+  const paths: string[] = [];
+  substituteReferences(def.options, (path) => paths.push(path));
+  return paths;
+}
+
+/**
+ * Resolves a reference path against a table.
+ * A path without a dot names a field of the row; otherwise the first segment names
+ * a BelongsTo relation (or its target table) and the second a field of the parent row.
+ *
+ * @param config - The Mocklite configuration object.
+ * @param table - The table the reference is made from.
+ * @param path - The path (e.g., "author.companyId").
+ * @returns The resolved reference.
+ * @throws {Error} If the path does not lead to a field.
+ */
+export function resolveReference(
+  config: MockliteConfig,
+  table: TableSchema,
+  path: string
+): FieldReference {
+  const segments = path.split(".");
+  if (segments.length > 2) {
+    throw new Error(
+      `Reference "${path}" is too deep; use "field" or "relation.field"`
+    );
+  }
+
+  const [name, field] = segments as [string, string | undefined];
+  if (field === undefined) {
+    if (!(name in table.fields)) {
+      throw new Error(`Field "${name}" does not exist`);
+    }
+    if (table.fields[name] === "pk") {
+      throw new Error(
+        `Field "${name}" is the primary key, which is assigned when the row is inserted`
+      );
+    }
+    return { field: name };
+  }
+
+  const relation = findRelation(config, table.table, name);
+  if (!relation || relation.kind !== "belongsTo") {
+    throw new Error(`"${name}" is not a BelongsTo relation of ${table.table}`);
+  }
+  if (!(field in findTable(config, relation.table)!.fields)) {
+    throw new Error(`Field "${field}" does not exist on ${relation.table}`);
+  }
+  return { field, relation };
+}
+
+/**
+ * Orders the fields of a table so that each comes after the fields it references,
+ * keeping the config order otherwise. A parent reference depends on the FK field of its relation.
+ *
+ * @param config - The Mocklite configuration object.
+ * @param table - The table definition.
+ * @returns The ordered field names, and the first cycle found (e.g., ["a", "b", "a"]).
+ * @throws {Error} If a reference cannot be resolved.
+ */
+export function sortFields(config: MockliteConfig, table: TableSchema) {
+  const dependencies = new Map<string, string[]>();
+  for (const [name, def] of Object.entries(table.fields)) {
+    dependencies.set(
+      name,
+      getReferencePaths(def).map((path) => {
+        const reference = resolveReference(config, table, path);
+        return reference.relation?.localKey ?? reference.field;
+      })
+    );
+  }
+
+  const fields: string[] = [];
+  const visiting = new Set<string>();
+  let cycle: string[] | undefined;
+
+  const visit = (name: string, path: string[]) => {
+    if (fields.includes(name)) return;
+    if (visiting.has(name)) {
+      cycle ??= [...path.slice(path.indexOf(name)), name];
+      return;
+    }
+
+    visiting.add(name);
+    for (const dependency of dependencies.get(name)!) {
+      visit(dependency, [...path, name]);
+    }
+    visiting.delete(name);
+    fields.push(name);
+  };
+
+  for (const name of dependencies.keys()) visit(name, []);
+  return { fields, cycle };
+}
+
+/**
+ * Replaces the `$` references in a value (e.g., Faker options), searching arrays and objects.
+ *
+ * @param value - The value.
+ * @param lookup - Returns the value of a referenced path.
+ * @returns A copy of the value with each reference replaced.
+ */
+export function substituteReferences(
+  value: unknown,
+  lookup: (path: string) => unknown
+): unknown {
+  if (typeof value === "string") {
+    const match = value.match(REFERENCE);
+    return match ? lookup(match[1]!) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => substituteReferences(item, lookup));
+  }
+  if (typeof value === "object" && value?.constructor === Object) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        substituteReferences(item, lookup),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Renders the text of a template field. Placeholders are replaced by the referenced
+ * values, or by a value of a Faker method (`{{faker.internet.domainName}}`).
+ * Missing values render as empty text and dates in ISO format.
+ *
+ * @param template - The template text.
+ * @param lookup - Returns the value of a referenced path.
+ * @returns The rendered text.
+ */
+export function renderFieldTemplate(
+  template: string,
+  lookup: (path: string) => unknown
+) {
+  return template.replace(EXPRESSION, (_, expression: string) => {
+    const value = expression.startsWith("faker.")
+      ? resolveFakerPath(expression)?.()
+      : lookup(expression);
+
+    if (value === undefined || value === null) return "";
+    if (value instanceof Date) return value.toISOString();
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  });
+}
+
+/**
+ * Sets the column type of computed fields that do not declare one, since it cannot be
+ * inferred from the definition alone: a copy takes the type of the field it copies, and
+ * Faker fields are sampled with a placeholder of each referenced field's type.
+ * String-form copies are rewritten to the object form.
+ *
+ * @param config - The validated configuration, modified in place.
+ */
+export function resolveComputedTypes(config: MockliteConfig) {
+  // Guards against parent references that lead back to the field through an FK cycle
+  const resolving = new Set<string>();
+
+  const resolve = (table: TableSchema, name: string): SqlType => {
+    const def = table.fields[name]!;
+    const paths = getReferencePaths(def);
+    const source = typeof def === "object" ? def.type : def;
+    const key = `${table.table}.${name}`;
+    if (
+      paths.length === 0 ||
+      (typeof def === "object" && def.sqlType) ||
+      source === TEMPLATE_TYPE ||
+      resolving.has(key)
+    ) {
+      return resolveSqlType(def);
+    }
+
+    resolving.add(key);
+    const typeOf = (path: string) => {
+      const { field, relation } = resolveReference(config, table, path);
+      return resolve(
+        relation ? findTable(config, relation.table)! : table,
+        field
+      );
+    };
+
+    const sqlType =
+      typeof def === "object"
+        ? REFERENCE.test(def.type as string)
+          ? typeOf(paths[0]!)
+          : resolveSqlType({
+              ...def,
+              options: substituteReferences(
+                def.options,
+                (path) => SAMPLE_VALUES[typeOf(path)]
+              ) as Record<string, unknown>,
+            })
+        : typeOf(paths[0]!);
+    resolving.delete(key);
+
+    table.fields[name] =
+      typeof def === "object" ? { ...def, sqlType } : { type: def, sqlType };
+    return sqlType;
+  };
+
+  for (const table of config.schema) {
+    for (const name of Object.keys(table.fields)) resolve(table, name);
+  }
+}
@@ -1,33 +1,125 @@
 import fs from "fs-extra";
+import { createJiti } from "jiti";
 import path from "path";
 import pc from "picocolors";
 import type { MockliteConfig } from "./types";
+import { validateConfig, type ValidationIssue } from "./validator";
+import { resolveFixturePaths } from "./fixtures";
+import { resolveComputedTypes } from "./computed";
+
+/**
+ * Config file names looked up in the working directory, in order of preference.
+ */
+const CONFIG_FILES = [
+  "mocklite.config.ts",
+  "mocklite.config.js",
+  "mocklite.config.mjs",
+  "mocklite.config.json",
+];
+
+/**
+ * Types a configuration written in `mocklite.config.ts` or `.js`.
+ * Returns the config unchanged.
+ *
+ * @param config - The Mocklite configuration object.
+ * @returns The same configuration.
+ */
+export function defineConfig(config: MockliteConfig) {
+  return config;
+}
+
+/**
+ * Resolves the absolute path of the configuration file.
+ *
+ * @param customPath - Optional custom path to the configuration file.
+ * @returns The absolute path: the first existing default config file in the working directory,
+ * or mocklite.config.json if there is none.
+ */
+export function resolveConfigPath(customPath?: string) {
+  if (customPath) return path.resolve(process.cwd(), customPath);
+
+  const candidates = CONFIG_FILES.map((name) =>
+    path.resolve(process.cwd(), name)
+  );
+  return (
+    candidates.find((candidate) => fs.existsSync(candidate)) ??
+    candidates[candidates.length - 1]!
+  );
+}
+
+/**
+ * Reads a config file. JSON is parsed; JavaScript and TypeScript files are evaluated
+ * and their default export is used.
+ *
+ * @param configPath - The absolute path of the config file.
+ * @returns The raw configuration.
+ */
+async function readConfigFile(configPath: string): Promise<unknown> {
+  if (path.extname(configPath) === ".json") {
+    return fs.readJSON(configPath);
+  }
+
+  // Evaluate from scratch every time so watch mode sees edits
+  const jiti = createJiti(configPath, { moduleCache: false, fsCache: false });
+  return jiti.import(configPath, { default: true });
+}
 
 /**
  * Loads the Mocklite configuration from a file.
+ * The configuration is validated before being returned; every issue found is printed.
  *
  * @param customPath - Optional custom path to the configuration file.
- * @returns A promise that resolves to the Mocklite configuration or null if not found/error.
+ * @returns A promise that resolves to the Mocklite configuration or null if not found/invalid.
  */
 export async function loadConfig(
   customPath?: string
 ): Promise<MockliteConfig | null> {
-  const configPath = customPath
-    ? path.resolve(process.cwd(), customPath)
-    : path.resolve(process.cwd(), "mocklite.config.json");
+  const configPath = resolveConfigPath(customPath);
 
   if (!(await fs.pathExists(configPath))) {
-    console.error(pc.red("❌ mocklite.config.json not found."));
+    console.error(pc.red(`❌ ${path.basename(configPath)} not found.`));
     console.error(pc.yellow('   Run "mocklite init" first.'));
     return null;
   }
 
+  let config: unknown;
   try {
-    const config = await fs.readJSON(configPath);
-    return config as MockliteConfig;
+    config = await readConfigFile(configPath);
   } catch (error) {
     console.error(pc.red("❌ Error reading config file:"));
     console.error(error);
     return null;
   }
+
+  const issues = validateConfig(config);
+  if (issues.length > 0) {
+    printValidationIssues(configPath, issues);
+    return null;
+  }
+
+  resolveFixturePaths(config as MockliteConfig, path.dirname(configPath));
+  resolveComputedTypes(config as MockliteConfig);
+  return config as MockliteConfig;
+}
+
+/**
+ * Prints configuration validation issues in a readable list.
+ *
+ * @param configPath - The path of the config file that was validated.
+ * @param issues - The issues to print.
+ */
+export function printValidationIssues(
+  configPath: string,
+  issues: ValidationIssue[]
+) {
+  const label = issues.length === 1 ? "problem" : "problems";
+  console.error(
+    pc.red(`❌ Invalid config (${issues.length} ${label}): `) +
+      pc.dim(path.relative(process.cwd(), configPath) || configPath)
+  );
+  for (const issue of issues) {
+    console.error(
+      `   ${pc.yellow(issue.path)} ${pc.dim("→")} ${issue.message}`
+    );
+  }
 }
@@ -0,0 +1,104 @@
+/**
+ * Parses CSV text (RFC 4180) into rows keyed by the header line.
+ * Quoted fields may contain commas, line breaks and doubled quotes (`""`).
+ * An empty unquoted field is read as null; an empty quoted field (`""`) as an empty string.
+ *
+ * @param text - The CSV text.
+ * @returns One record per data line.
+ * @throws {Error} If a quoted field is not closed or a record has more fields than the header.
+ */
+export function parseCsv(text: string): Record<string, string | null>[] {
+  const lines = parseLines(text.replace(/^\uFEFF/, ""));
+  const [header, ...records] = lines;
+  if (!header) return [];
+
+  const columns = header.map((name) => name ?? "");
+  return records.map((fields, index) => {
+    if (fields.length > columns.length) {
+      throw new Error(
+        `CSV record ${index + 1} has ${
+          fields.length
+        } fields, but the header has ${columns.length}`
+      );
+    }
+    const row: Record<string, string | null> = {};
+    columns.forEach((column, i) => {
+      row[column] = fields[i] ?? null;
+    });
+    return row;
+  });
+}
+
+/**
+ * Splits CSV text into lines of fields, skipping blank lines.
+ */
+function parseLines(text: string) {
+  const lines: (string | null)[][] = [];
+  let fields: (string | null)[] = [];
+  let i = 0;
+
+  const endLine = () => {
+    // A blank line is a single empty field
+    if (fields.length > 1 || fields[0] !== null) lines.push(fields);
+    fields = [];
+  };
+
+  while (i <= text.length) {
+    if (text[i] === '"') {
+      let value = "";
+      i++;
+      for (;;) {
+        const close = text.indexOf('"', i);
+        if (close === -1) throw new Error("Unterminated quoted field in CSV");
+        value += text.slice(i, close);
+        i = close + 1;
+        if (text[i] !== '"') break;
+        value += '"';
+        i++;
+      }
+      fields.push(value);
+    } else {
+      const match = /[,\r\n]|$/.exec(text.slice(i))!;
+      const value = text.slice(i, i + match.index);
+      fields.push(value === "" ? null : value);
+      i += match.index;
+    }
+
+    const separator = text[i];
+    if (separator === ",") {
+      i++;
+      continue;
+    }
+    endLine();
+    if (separator === undefined) break;
+    i += separator === "\r" && text[i + 1] === "\n" ? 2 : 1;
+  }
+
+  return lines;
+}
+
+/**
+ * Formats rows as CSV with a header line. Nulls become empty fields, objects are
+ * written as JSON, and fields are quoted when needed (including empty strings, to tell them from null).
+ *
+ * @param columns - The columns to write, in order.
+ * @param rows - The rows to write.
+ * @returns The CSV text, ending with a line break.
+ */
+export function formatCsv(columns: string[], rows: Record<string, unknown>[]) {
+  const lines = [columns.map(formatField).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => formatField(row[column])).join(","));
+  }
+  return lines.join("\n") + "\n";
+}
+
+function formatField(value: unknown) {
+  if (value === null || value === undefined) return "";
+
+  const text =
+    typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text === "" || /[",\r\n]|^\s|\s$/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
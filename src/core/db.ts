@@ -4,12 +4,92 @@ import {
   Kysely,
   SqliteDialect,
   ParseJSONResultsPlugin,
-  CreateTableBuilder,
+  sql,
+  type ColumnDataType,
+  type ColumnDefinitionBuilderCallback,
 } from "kysely";
 import fs from "fs-extra";
 import path from "path";
+import { createHash } from "crypto";
 import pc from "picocolors";
-import type { MockliteConfig, FieldType } from "./types";
+import type {
+  MockliteConfig,
+  FieldType,
+  OnDeleteAction,
+  SqlType,
+  TableSchema,
+} from "./types";
+import {
+  parseForeignKey,
+  resolveSqlType,
+  serializeField,
+  toStorageValue,
+} from "./fields";
+import { getOnDeleteAction } from "./relations";
+
+const META_TABLE = "_mocklite_meta";
+
+/**
+ * SQLite column types used to store each logical field type.
+ */
+const STORAGE_TYPES: Record<SqlType, ColumnDataType> = {
+  integer: "integer",
+  real: "real",
+  text: "text",
+  boolean: "integer",
+  json: "text",
+  datetime: "text",
+};
+
+/**
+ * Options controlling how the database file is opened.
+ */
+export interface MockDatabaseOptions {
+  /** Keep the existing database file between runs instead of wiping it. */
+  persist?: boolean;
+  /** Delete the existing database file even when persisting. */
+  reset?: boolean;
+}
+
+/**
+ * Thrown when a persisted database was created from a different schema than the current config.
+ */
+export class SchemaChangedError extends Error {
+  constructor() {
+    super("The schema in the config no longer matches the persisted database.");
+    this.name = "SchemaChangedError";
+  }
+}
+
+/**
+ * Returns the path of the database file.
+ * It is kept in the .mocklite folder of the working directory to keep it hidden.
+ */
+export function getDatabasePath() {
+  return path.resolve(process.cwd(), ".mocklite", "db.sqlite");
+}
+
+/**
+ * Thrown when a snapshot cannot be restored into the current database.
+ */
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SnapshotError";
+  }
+}
+
+/**
+ * Snapshot names become file names, so they are limited to safe characters.
+ */
+export const SNAPSHOT_NAME = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Names the index created for a `unique`/`index` field.
+ */
+function indexName(tableName: string, fieldName: string) {
+  return `${tableName}_${fieldName}_idx`;
+}
 
 /**
  * Manages the SQLite database operations for Mocklite.
@@ -18,21 +98,26 @@ import type { MockliteConfig, FieldType } from "./types";
 export class MockDatabase {
   private db: Kysely<any>;
   private dbPath: string;
+  private snapshotDir: string;
+  private persist: boolean;
 
   /**
    * Initializes a new instance of the MockDatabase class.
    * Sets up the database file in the .mocklite directory and initializes the Kysely instance.
-   * Resets the database on every start.
+   * Resets the database on every start unless persistence is enabled.
+   *
+   * @param options - Persistence options.
    */
-  constructor() {
-    // Store the database in the .mocklite folder to keep it hidden
-    const dbDir = path.resolve(process.cwd(), ".mocklite");
+  constructor(options: MockDatabaseOptions = {}) {
+    this.dbPath = getDatabasePath();
+    const dbDir = path.dirname(this.dbPath);
     fs.ensureDirSync(dbDir);
 
-    this.dbPath = path.join(dbDir, "db.sqlite");
+    this.snapshotDir = path.join(dbDir, "snapshots");
+    this.persist = Boolean(options.persist);
 
-    // Reset the database on every start to ensure the schema remains fresh and consistent with the config
-    if (fs.existsSync(this.dbPath)) {
+    // Without persistence, reset the database on every start to ensure the schema remains fresh and consistent with the config
+    if ((!this.persist || options.reset) && fs.existsSync(this.dbPath)) {
       fs.unlinkSync(this.dbPath);
     }
 
@@ -47,83 +132,424 @@ export class MockDatabase {
   /**
    * Sets up the database schema based on the provided configuration.
    * Creates tables and columns as defined in the config.
+   * When persisting, an existing database is reused if its stored schema hash matches the config.
    *
    * @param config - The Mocklite configuration object containing the schema definition.
+   * @throws {SchemaChangedError} If a persisted database was built from a different schema.
    */
   async setup(config: MockliteConfig) {
     console.log(pc.cyan("⚙️  Setting up database schema..."));
 
-    for (const table of config.schema) {
-      let schemaBuilder = this.db.schema.createTable(table.table);
+    await this.ensureMetaTable();
 
-      // Iterate over each field in the configuration
-      for (const [fieldName, fieldDef] of Object.entries(table.fields)) {
-        schemaBuilder = this.parseField(schemaBuilder, fieldName, fieldDef);
-      }
+    const storedHash = await this.getMeta("schemaHash");
+
+    if (storedHash === this.hashSchema(config.schema)) {
+      console.log(
+        pc.green("   ✓ Reusing persisted database (schema unchanged)")
+      );
+      return;
+    }
+
+    if (storedHash !== null || (await this.hasUserTables())) {
+      throw new SchemaChangedError();
+    }
 
-      await schemaBuilder.execute();
+    for (const table of config.schema) {
+      await this.createTable(table, config.schema);
       console.log(pc.green(`   ✓ Table created: ${table.table}`));
     }
+
+    await this.saveSchema(config.schema);
+  }
+
+  /**
+   * Creates a table from its schema definition.
+   *
+   * @param table - The table definition.
+   * @param schema - All table definitions, used to look up FK delete behavior from relation declarations.
+   */
+  async createTable(table: TableSchema, schema: TableSchema[] = [table]) {
+    let schemaBuilder = this.db.schema.createTable(table.table);
+
+    // Iterate over each field in the configuration
+    for (const [fieldName, fieldDef] of Object.entries(table.fields)) {
+      const column = this.parseField(fieldDef, {
+        onDelete: getOnDeleteAction({ schema }, table.table, fieldName),
+      });
+      schemaBuilder = schemaBuilder.addColumn(
+        fieldName,
+        column.type,
+        column.build
+      );
+    }
+
+    await schemaBuilder.execute();
+
+    for (const [fieldName, fieldDef] of Object.entries(table.fields)) {
+      await this.createIndex(table.table, fieldName, fieldDef);
+    }
+  }
+
+  /**
+   * Adds a column to an existing table (ALTER TABLE ADD COLUMN).
+   * Primary keys cannot be added this way, and NOT NULL is only applied when a default exists.
+   * Indexes are not created here; call `createIndex` once the column is populated.
+   *
+   * @param tableName - The table to alter.
+   * @param fieldName - The new column name.
+   * @param def - The field definition.
+   * @param schema - All table definitions, used to look up FK delete behavior from relation declarations.
+   */
+  async addColumn(
+    tableName: string,
+    fieldName: string,
+    def: FieldType,
+    schema: TableSchema[] = []
+  ) {
+    const column = this.parseField(def, {
+      alter: true,
+      onDelete: getOnDeleteAction({ schema }, tableName, fieldName),
+    });
+    await this.db.schema
+      .alterTable(tableName)
+      .addColumn(fieldName, column.type, column.build)
+      .execute();
+  }
+
+  /**
+   * Creates the (unique) index requested by a field definition, if any.
+   *
+   * @param tableName - The table owning the column.
+   * @param fieldName - The column to index.
+   * @param def - The field definition.
+   */
+  async createIndex(tableName: string, fieldName: string, def: FieldType) {
+    if (typeof def !== "object" || !(def.unique || def.index)) return;
+
+    let builder = this.db.schema
+      .createIndex(indexName(tableName, fieldName))
+      .ifNotExists()
+      .on(tableName)
+      .column(fieldName);
+
+    if (def.unique) {
+      builder = builder.unique();
+    }
+
+    await builder.execute();
+  }
+
+  /**
+   * Removes a column from an existing table (ALTER TABLE DROP COLUMN).
+   * The index created for a `unique`/`index` field is dropped first, since SQLite
+   * refuses to drop an indexed column.
+   *
+   * @param tableName - The table to alter.
+   * @param fieldName - The column to drop.
+   */
+  async dropColumn(tableName: string, fieldName: string) {
+    await this.db.schema
+      .dropIndex(indexName(tableName, fieldName))
+      .ifExists()
+      .execute();
+    await this.db.schema.alterTable(tableName).dropColumn(fieldName).execute();
+  }
+
+  /**
+   * Drops a table if it exists.
+   *
+   * @param tableName - The table to drop.
+   */
+  async dropTable(tableName: string) {
+    await this.db.schema.dropTable(tableName).ifExists().execute();
+  }
+
+  /**
+   * Runs a callback inside a transaction, with foreign key enforcement disabled so that
+   * dropping or replacing a parent table does not cascade into its children.
+   * The work holds the database's single connection: other queries (such as requests
+   * to a running server) wait until it is committed or rolled back, instead of joining it.
+   *
+   * @param fn - The work to run; it must use the database it is given, which is bound to the held connection.
+   * @returns The callback's result.
+   */
+  async withTransaction<T>(fn: (database: MockDatabase) => Promise<T>) {
+    return this.db.connection().execute(async (conn) => {
+      // The setting is ignored inside a transaction, so it is changed first
+      await sql`PRAGMA foreign_keys = OFF`.execute(conn);
+      try {
+        await sql`BEGIN`.execute(conn);
+        try {
+          const result = await fn(this.bindTo(conn));
+          await sql`COMMIT`.execute(conn);
+          return result;
+        } catch (err) {
+          await sql`ROLLBACK`.execute(conn);
+          throw err;
+        }
+      } finally {
+        await sql`PRAGMA foreign_keys = ON`.execute(conn);
+      }
+    });
+  }
+
+  /**
+   * Returns a view of this database whose queries run on the given connection.
+   */
+  private bindTo(conn: Kysely<any>): MockDatabase {
+    const bound = Object.create(this) as MockDatabase;
+    bound.db = conn;
+    return bound;
+  }
+
+  /**
+   * Returns the table definitions the database was last built or migrated from.
+   *
+   * @returns The stored schema, or null if none was recorded.
+   */
+  async getStoredSchema(): Promise<TableSchema[] | null> {
+    await this.ensureMetaTable();
+    const stored = await this.getMeta("schema");
+    if (stored === null) return null;
+    // ParseJSONResultsPlugin may already have decoded the JSON value
+    return (typeof stored === "string" ? JSON.parse(stored) : stored) as
+      | TableSchema[];
+  }
+
+  /**
+   * Records the table definitions (and their hash) the database now matches.
+   *
+   * @param schema - The current table definitions.
+   */
+  async saveSchema(schema: TableSchema[]) {
+    await this.ensureMetaTable();
+    await this.setMeta("schemaHash", this.hashSchema(schema));
+    await this.setMeta("schema", JSON.stringify(this.structureOf(schema)));
+  }
+
+  /**
+   * Strips a schema down to the parts that affect the database structure.
+   * Seed counts are excluded because they do not change the tables, and
+   * generator functions are reduced to their column type.
+   *
+   * @param schema - The table definitions.
+   * @returns The structural subset of each table definition.
+   */
+  private structureOf(schema: TableSchema[]): TableSchema[] {
+    return schema.map((t) => ({
+      table: t.table,
+      fields: Object.fromEntries(
+        Object.entries(t.fields).map(([name, def]) => [
+          name,
+          serializeField(def),
+        ])
+      ),
+    }));
+  }
+
+  /**
+   * Computes a stable hash of the table definitions.
+   *
+   * @param schema - The table definitions.
+   * @returns The hex-encoded SHA-256 hash.
+   */
+  private hashSchema(schema: TableSchema[]) {
+    return createHash("sha256")
+      .update(JSON.stringify(this.structureOf(schema)))
+      .digest("hex");
+  }
+
+  /**
+   * Creates the metadata table used to track the schema, if missing.
+   */
+  private async ensureMetaTable() {
+    await this.db.schema
+      .createTable(META_TABLE)
+      .ifNotExists()
+      .addColumn("key", "text", (col) => col.primaryKey())
+      .addColumn("value", "text")
+      .execute();
+  }
+
+  /**
+   * Checks whether the database contains any tables besides Mocklite's own metadata.
+   */
+  private async hasUserTables() {
+    const tables = await this.db.introspection.getTables();
+    return tables.some((t) => t.name !== META_TABLE);
+  }
+
+  /**
+   * Reads a value from the metadata table.
+   *
+   * @param key - The metadata key.
+   * @returns The stored value, or null if not set.
+   */
+  private async getMeta(key: string): Promise<unknown> {
+    const row = await this.db
+      .selectFrom(META_TABLE)
+      .select("value")
+      .where("key", "=", key)
+      .executeTakeFirst();
+    return row ? row.value : null;
+  }
+
+  /**
+   * Writes a value to the metadata table.
+   *
+   * @param key - The metadata key.
+   * @param value - The value to store.
+   */
+  private async setMeta(key: string, value: string) {
+    await this.db
+      .insertInto(META_TABLE)
+      .values({ key, value })
+      .onConflict((oc) => oc.column("key").doUpdateSet({ value }))
+      .execute();
   }
 
   /**
    * Helper method to translate a field configuration into a Kysely SQL column definition.
    *
-   * @param builder - The Kysely CreateTableBuilder instance.
-   * @param name - The name of the field/column.
    * @param def - The field definition (string or object).
-   * @returns The updated CreateTableBuilder instance.
+   * @param context - Set `alter` when the column is added to an existing table, and `onDelete` for FK columns.
+   * @returns The column data type and a builder callback applying its constraints.
    */
   private parseField(
-    builder: CreateTableBuilder<any, any>,
-    name: string,
-    def: FieldType
-  ) {
-    // Case 1: Simple String definition (e.g., "pk", "fk:...", "faker...")
-    if (typeof def === "string") {
-      if (def === "pk") {
-        return builder.addColumn(name, "integer", (col) =>
-          col.primaryKey().autoIncrement()
-        );
-      }
+    def: FieldType,
+    context: { alter?: boolean; onDelete?: OnDeleteAction } = {}
+  ): {
+    type: ColumnDataType;
+    build: ColumnDefinitionBuilderCallback;
+  } {
+    if (def === "pk") {
+      return {
+        type: "integer",
+        build: (col) => col.primaryKey().autoIncrement(),
+      };
+    }
+
+    const fk = parseForeignKey(def);
+    if (fk) {
+      // Assume Foreign Key is an integer for safety
+      return {
+        type: "integer",
+        build: (col) =>
+          col
+            .references(`${fk.table}.${fk.column}`)
+            .onDelete(context.onDelete ?? "cascade"),
+      };
+    }
+
+    const sqlType = resolveSqlType(def);
+    const type = STORAGE_TYPES[sqlType];
 
-      if (def.startsWith("fk:")) {
-        // Format: "fk:users.id"
-        const target = def.split(":")[1]; // users.id
-        // Parse target table
+    if (typeof def !== "object") {
+      return { type, build: (col) => col };
+    }
 
-        if (!target) {
-          throw new Error(`Invalid FK definition: ${def}`);
+    return {
+      type,
+      build: (col) => {
+        const hasDefault = def.default !== undefined;
+
+        // SQLite rejects ADD COLUMN ... NOT NULL without a default value
+        if (def.nullable === false && (hasDefault || !context.alter)) {
+          col = col.notNull();
+        }
+        if (hasDefault) {
+          col = col.defaultTo(toStorageValue(sqlType, def.default));
         }
+        return col;
+      },
+    };
+  }
+
+  /**
+   * Saves a copy of the database to `.mocklite/snapshots/<name>.sqlite`,
+   * replacing an earlier snapshot of the same name.
+   *
+   * @param name - The snapshot name (letters, digits, "_" and "-").
+   */
+  async snapshot(name: string) {
+    fs.ensureDirSync(this.snapshotDir);
+    const file = this.snapshotPath(name);
+    fs.removeSync(file);
+    await sql`VACUUM INTO ${file}`.execute(this.db);
+  }
 
-        const [targetTable, targetCol] = target.split(".");
+  /**
+   * Replaces the database with a snapshot.
+   * The snapshot's pages are copied over the database file with SQLite's backup API while
+   * the open connection is held, so the server keeps running and a restore is fast regardless of the row count.
+   *
+   * @param name - The snapshot name.
+   * @param schema - The table definitions of the current config.
+   * @throws {SnapshotError} If the snapshot does not exist or was taken from a different schema.
+   */
+  async restore(name: string, schema: TableSchema[]) {
+    const file = this.snapshotPath(name);
+    if (!fs.existsSync(file)) {
+      throw new SnapshotError(`Snapshot "${name}" does not exist`);
+    }
 
-        // Assume Foreign Key is an integer for safety
-        return builder.addColumn(name, "integer", (col) =>
-          col.references(`${targetTable}.${targetCol}`).onDelete("cascade")
+    const source = new Database(file, { readonly: true });
+    try {
+      let storedHash: string | undefined;
+      try {
+        const row = source
+          .prepare(`SELECT value FROM ${META_TABLE} WHERE key = 'schemaHash'`)
+          .get() as { value: string } | undefined;
+        storedHash = row?.value;
+      } catch (e) {
+        // Not a Mocklite database, handled like a schema mismatch
+      }
+      if (storedHash !== this.hashSchema(schema)) {
+        throw new SnapshotError(
+          `Snapshot "${name}" was taken from a different schema`
         );
       }
 
-      // Detect basic data types from the faker name (initial simple implementation)
-      if (def.includes("number") || def.includes("int")) {
-        return builder.addColumn(name, "integer");
-      }
+      // Holding the connection keeps queries from running while the pages are replaced
+      await this.db.connection().execute(() => source.backup(this.dbPath));
+    } finally {
+      source.close();
+    }
+  }
 
-      if (def.includes("boolean")) {
-        return builder.addColumn(name, "integer");
-      }
+  /**
+   * Deletes a snapshot.
+   *
+   * @param name - The snapshot name.
+   * @returns Whether the snapshot existed.
+   */
+  deleteSnapshot(name: string) {
+    const file = this.snapshotPath(name);
+    if (!fs.existsSync(file)) return false;
+    fs.removeSync(file);
+    return true;
+  }
 
-      // Default: Text
-      return builder.addColumn(name, "text");
-    }
+  /**
+   * Lists the saved snapshots.
+   *
+   * @returns The snapshot names, sorted.
+   */
+  listSnapshots() {
+    if (!fs.existsSync(this.snapshotDir)) return [];
+    return fs
+      .readdirSync(this.snapshotDir)
+      .filter((file) => file.endsWith(".sqlite"))
+      .map((file) => path.basename(file, ".sqlite"))
+      .sort();
+  }
 
-    // Case 2: Object Config (e.g., { type: "enum", ... })
-    if (typeof def === "object") {
-      // Logic for object config (to be expanded later)
-      return builder.addColumn(name, "text");
+  private snapshotPath(name: string) {
+    if (!SNAPSHOT_NAME.test(name)) {
+      throw new SnapshotError(`Invalid snapshot name "${name}"`);
     }
-
-    return builder.addColumn(name, "text");
+    return path.join(this.snapshotDir, `${name}.sqlite`);
   }
 
   /**
@@ -0,0 +1,96 @@
+/**
+ * Renders a self-contained API documentation page for an OpenAPI document.
+ * Everything is inlined, so the page works offline.
+ *
+ * @param specUrl - The URL the page loads the OpenAPI document from.
+ * @returns The HTML page.
+ */
+export function renderDocsPage(specUrl = "/openapi.json") {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>MockLite API Docs</title>
+<style>
+  body { margin: 0; font: 14px/1.5 system-ui, sans-serif; color: #1f2937; background: #f9fafb; }
+  main { max-width: 960px; margin: 0 auto; padding: 24px; }
+  h1 { margin: 0 0 4px; font-size: 24px; }
+  h2 { margin: 32px 0 8px; font-size: 18px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+  code, pre { font: 13px/1.4 ui-monospace, monospace; }
+  pre { background: #111827; color: #e5e7eb; padding: 12px; border-radius: 6px; overflow: auto; }
+  details { background: #fff; border: 1px solid #e5e7eb; border-radius: 6px; margin: 6px 0; }
+  summary { cursor: pointer; padding: 8px 12px; display: flex; gap: 12px; align-items: center; }
+  details > div { padding: 0 12px 12px; }
+  table { border-collapse: collapse; width: 100%; margin: 8px 0; }
+  th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #f3f4f6; vertical-align: top; }
+  .method { display: inline-block; min-width: 56px; text-align: center; border-radius: 4px; color: #fff; font-weight: 600; font-size: 12px; padding: 2px 6px; }
+  .get { background: #2563eb; } .post { background: #16a34a; } .put { background: #d97706; }
+  .patch { background: #9333ea; } .delete { background: #dc2626; }
+  .muted { color: #6b7280; }
+</style>
+</head>
+<body>
+<main>
+  <h1 id="title">MockLite API</h1>
+  <p class="muted" id="description">Loading <code>${specUrl}</code>...</p>
+  <div id="content"></div>
+</main>
+<script>
+const METHODS = ["get", "post", "put", "patch", "delete"];
+const escape = (value) => String(value).replace(/[&<>"]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]);
+const refName = (ref) => ref.split("/").pop();
+
+function typeOf(schema) {
+  if (!schema) return "";
+  if (schema.$ref) return refName(schema.$ref);
+  if (schema.oneOf) return schema.oneOf.map(typeOf).join(" | ");
+  if (schema.type === "array") return typeOf(schema.items) + "[]";
+  const type = [].concat(schema.type ?? "any").join(" | ");
+  return schema.enum ? schema.enum.map((v) => JSON.stringify(v)).join(" | ") : type + (schema.format ? " (" + schema.format + ")" : "");
+}
+
+function renderOperation(path, method, op) {
+  const params = (op.parameters ?? []).map((p) =>
+    "<tr><td><code>" + escape(p.name) + "</code></td><td>" + p.in + "</td><td>" + escape(typeOf(p.schema)) + "</td><td class=muted>" + escape(p.description ?? "") + "</td></tr>").join("");
+  const body = op.requestBody ? Object.entries(op.requestBody.content).map(([type, c]) =>
+    "<div><code>" + type + "</code>: " + escape(typeOf(c.schema)) + "</div>").join("") : "";
+  const responses = Object.entries(op.responses).map(([status, r]) =>
+    "<tr><td>" + status + "</td><td>" + escape(r.description ?? refName(r.$ref ?? "")) + "</td></tr>").join("");
+  return "<details><summary><span class='method " + method + "'>" + method.toUpperCase() + "</span><code>" + escape(path) + "</code><span class=muted>" + escape(op.summary ?? "") + "</span></summary><div>" +
+    (op.description ? "<p>" + escape(op.description) + "</p>" : "") +
+    (params ? "<h4>Parameters</h4><table>" + params + "</table>" : "") +
+    (body ? "<h4>Request body</h4>" + body : "") +
+    "<h4>Responses</h4><table>" + responses + "</table></div></details>";
+}
+
+function renderSchema(name, schema) {
+  const rows = Object.entries(schema.properties ?? {}).map(([field, s]) =>
+    "<tr><td><code>" + escape(field) + "</code>" + ((schema.required ?? []).includes(field) ? " *" : "") + "</td><td>" + escape(typeOf(s)) + "</td><td class=muted>" + escape(s.description ?? "") + "</td></tr>").join("");
+  return "<details><summary><code>" + escape(name) + "</code></summary><div>" + (rows ? "<table>" + rows + "</table>" : "<pre>" + escape(JSON.stringify(schema, null, 2)) + "</pre>") + "</div></details>";
+}
+
+fetch(${JSON.stringify(specUrl)}).then((res) => res.json()).then((spec) => {
+  document.getElementById("title").textContent = spec.info.title;
+  document.getElementById("description").textContent = spec.info.description ?? "";
+  let html = "";
+  for (const tag of spec.tags ?? []) {
+    html += "<h2>" + escape(tag.name) + "</h2>";
+    for (const [path, item] of Object.entries(spec.paths)) {
+      for (const method of METHODS) {
+        const op = item[method];
+        if (op && (op.tags ?? []).includes(tag.name)) html += renderOperation(path, method, { ...op, parameters: [...(item.parameters ?? []), ...(op.parameters ?? [])] });
+      }
+    }
+  }
+  html += "<h2>Schemas</h2>";
+  for (const [name, schema] of Object.entries(spec.components.schemas)) html += renderSchema(name, schema);
+  document.getElementById("content").innerHTML = html;
+}).catch((err) => {
+  document.getElementById("description").textContent = "Failed to load the OpenAPI document: " + err.message;
+});
+</script>
+</body>
+</html>
+`;
+}
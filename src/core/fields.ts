@@ -0,0 +1,275 @@
+import { Faker, en, faker } from "@faker-js/faker";
+import type { FieldGenerator, FieldType, SqlType, TableSchema } from "./types";
+
+/**
+ * All supported column types, in the order they are documented.
+ */
+export const SQL_TYPES: readonly SqlType[] = [
+  "integer",
+  "real",
+  "text",
+  "boolean",
+  "json",
+  "datetime",
+];
+
+/**
+ * A private Faker instance used to sample values for type inference,
+ * so inference never disturbs the (possibly seeded) global instance.
+ */
+const sampler = new Faker({ locale: [en] });
+
+const SAMPLE_SIZE = 5;
+
+const inferredTypes = new Map<string, SqlType>();
+
+const generatorTypes = new WeakMap<FieldGenerator, SqlType>();
+
+/**
+ * A parsed foreign key reference (e.g., "fk:users.id").
+ */
+export interface ForeignKeyRef {
+  table: string;
+  column: string;
+}
+
+/**
+ * Parses a "fk:<table>.<col>" field definition, given as a string or as the `type` of the object form.
+ *
+ * @param def - The field definition.
+ * @returns The parsed reference, or null if the definition is not a foreign key.
+ * @throws If the definition starts with "fk:" but is malformed.
+ */
+export function parseForeignKey(def: FieldType): ForeignKeyRef | null {
+  const source = typeof def === "object" ? def.type : def;
+  if (typeof source !== "string" || !source.startsWith("fk:")) return null;
+
+  const [table, column] = source.slice(3).split(".");
+  if (!table || !column) {
+    throw new Error(`Invalid FK definition: ${source}`);
+  }
+
+  return { table, column };
+}
+
+/**
+ * Looks up a Faker method from a dot-notation path (e.g., "faker.person.fullName").
+ *
+ * @param pathStr - The path to the Faker method, with or without the "faker." prefix.
+ * @param instance - The Faker instance to resolve against (defaults to the global one).
+ * @returns The bound Faker method, or null if the path does not resolve to a function.
+ */
+export function resolveFakerPath(
+  pathStr: string,
+  instance: Faker = faker
+): ((...args: unknown[]) => unknown) | null {
+  const segments = pathStr.replace(/^faker\./, "").split(".");
+  let parent: any = null;
+  let generator: any = instance;
+
+  for (const segment of segments) {
+    if (generator === null || generator === undefined) return null;
+    parent = generator;
+    generator = generator[segment];
+  }
+
+  if (typeof generator !== "function") return null;
+  return generator.bind(parent);
+}
+
+/**
+ * Determines the column type of a field.
+ * Uses the explicit `sqlType` when given; otherwise keys are integers, enums follow their values,
+ * and Faker fields are inferred from sample values (cached per definition).
+ *
+ * @param def - The field definition.
+ * @returns The column type.
+ */
+export function resolveSqlType(def: FieldType): SqlType {
+  if (def === "pk" || parseForeignKey(def)) return "integer";
+
+  if (typeof def === "object") {
+    if (def.sqlType) return def.sqlType;
+
+    if (def.type === "enum") {
+      const values = def.values ?? [];
+      if (values.length > 0 && values.every((v) => typeof v === "number")) {
+        return values.every((v) => Number.isInteger(v)) ? "integer" : "real";
+      }
+      return "text";
+    }
+  }
+
+  const source = typeof def === "object" ? def.type : def;
+
+  // Generator functions are sampled with an empty row; set `sqlType` if they need one
+  if (typeof source === "function") {
+    let sqlType = generatorTypes.get(source);
+    if (!sqlType) {
+      sqlType = inferSqlType((index) => source(sampler, {}, index));
+      generatorTypes.set(source, sqlType);
+    }
+    return sqlType;
+  }
+
+  if (!source.startsWith("faker.")) return "text";
+
+  const cacheKey = JSON.stringify(def);
+  let sqlType = inferredTypes.get(cacheKey);
+  if (!sqlType) {
+    const options = typeof def === "object" ? def.options : undefined;
+    const generator = resolveFakerPath(source, sampler);
+    sqlType = generator
+      ? inferSqlType(() =>
+          options !== undefined ? generator(options) : generator()
+        )
+      : "text";
+    inferredTypes.set(cacheKey, sqlType);
+  }
+  return sqlType;
+}
+
+/**
+ * Returns a JSON-serializable form of a field definition, for storing and comparing schemas.
+ * Generator functions are replaced by their column type, since only that affects the table.
+ *
+ * @param def - The field definition.
+ * @returns The serializable definition.
+ */
+export function serializeField(def: FieldType): FieldType {
+  if (typeof def === "function") {
+    return { type: "function", sqlType: resolveSqlType(def) };
+  }
+  if (typeof def === "object" && typeof def.type === "function") {
+    return { ...def, type: "function", sqlType: resolveSqlType(def) };
+  }
+  return def;
+}
+
+/**
+ * Infers a column type by generating a few sample values.
+ *
+ * @param sample - Generates a sample value for the given index.
+ * @returns The inferred column type ("text" if sampling throws).
+ */
+function inferSqlType(sample: (index: number) => unknown): SqlType {
+  sampler.seed(1);
+  const samples: unknown[] = [];
+  for (let i = 0; i < SAMPLE_SIZE; i++) {
+    try {
+      samples.push(sample(i));
+    } catch {
+      return "text";
+    }
+  }
+
+  if (samples.every((v) => typeof v === "boolean")) return "boolean";
+  if (samples.every((v) => v instanceof Date)) return "datetime";
+  if (samples.every((v) => typeof v === "bigint")) return "integer";
+  if (samples.every((v) => typeof v === "number")) {
+    return samples.every((v) => Number.isInteger(v)) ? "integer" : "real";
+  }
+  if (samples.every((v) => typeof v === "object" && v !== null)) return "json";
+
+  return "text";
+}
+
+/**
+ * Converts a value to the representation stored in SQLite for a column type.
+ *
+ * @param sqlType - The column type.
+ * @param value - The value to store.
+ * @returns The storable value.
+ */
+export function toStorageValue(sqlType: SqlType, value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+
+  switch (sqlType) {
+    case "boolean":
+      if (typeof value === "string")
+        return value === "true" || value === "1" ? 1 : 0;
+      return value ? 1 : 0;
+    case "json":
+      return typeof value === "string" ? value : JSON.stringify(value);
+    case "datetime":
+      return value instanceof Date ? value.toISOString() : String(value);
+    case "integer":
+    case "real":
+      return typeof value === "bigint" || typeof value === "number"
+        ? value
+        : Number(value);
+    default:
+      if (value instanceof Date) return value.toISOString();
+      if (typeof value === "object") return JSON.stringify(value);
+      return value;
+  }
+}
+
+/**
+ * Converts a value read from SQLite back to its API representation.
+ *
+ * @param sqlType - The column type.
+ * @param value - The stored value.
+ * @returns The value typed for JSON responses.
+ */
+export function fromStorageValue(sqlType: SqlType, value: unknown): unknown {
+  if (value === null || value === undefined) return value;
+
+  switch (sqlType) {
+    case "boolean":
+      return value === true || Number(value) === 1;
+    case "integer":
+    case "real":
+      return typeof value === "number" ? value : Number(value);
+    case "json":
+      if (typeof value !== "string") return value;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Converts a row read from SQLite to its API representation.
+ * Keys that are not fields of the table are passed through unchanged.
+ *
+ * @param table - The table definition.
+ * @param row - The stored row.
+ * @returns The converted row.
+ */
+export function fromStorageRow(
+  table: TableSchema,
+  row: Record<string, unknown>
+): Record<string, unknown> {
+  const result = { ...row };
+  for (const [field, def] of Object.entries(table.fields)) {
+    if (result[field] !== undefined) {
+      result[field] = fromStorageValue(resolveSqlType(def), result[field]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Converts a request body to storable column values using the table's field types.
+ * Keys that are not fields of the table are passed through unchanged.
+ *
+ * @param table - The table definition.
+ * @param body - The request body.
+ * @returns The row to write.
+ */
+export function toStorageRow(
+  table: TableSchema,
+  body: Record<string, unknown>
+): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(body)) {
+    const def = table.fields[key];
+    row[key] = def ? toStorageValue(resolveSqlType(def), value) : value;
+  }
+  return row;
+}
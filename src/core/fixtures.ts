@@ -0,0 +1,85 @@
+import fs from "fs-extra";
+import path from "path";
+import { parseCsv } from "./csv";
+import type { FixtureRow, MockliteConfig, TableSchema } from "./types";
+
+/**
+ * The fixture property naming a row, so FK fields of other fixtures can reference it.
+ */
+export const FIXTURE_KEY = "$key";
+
+/**
+ * Matches an FK value referencing a fixture by key (e.g., "@jane").
+ */
+export const FIXTURE_REF = /^@(.+)$/;
+
+/**
+ * File extensions rows can be read from.
+ */
+export const DATA_FILE_EXTENSIONS = [".json", ".csv", ".ndjson", ".jsonl"];
+
+/**
+ * Reads rows from a data file: a JSON array, CSV with a header line,
+ * or newline-delimited JSON (`.ndjson`/`.jsonl`). CSV values are strings
+ * (or null for empty fields); they are converted to the column types when stored.
+ *
+ * @param file - The path of the file.
+ * @returns The rows.
+ * @throws {Error} If the format is unsupported or the contents are not a list of objects.
+ */
+export async function readDataFile(file: string): Promise<FixtureRow[]> {
+  const name = path.basename(file);
+  const extension = path.extname(file).toLowerCase();
+  const text = await fs.readFile(file, "utf8");
+
+  let rows: unknown;
+  if (extension === ".csv") {
+    rows = parseCsv(text);
+  } else if (extension === ".ndjson" || extension === ".jsonl") {
+    rows = text
+      .split(/\r?\n/)
+      .filter((line) => line.trim() !== "")
+      .map((line) => JSON.parse(line));
+  } else if (extension === ".json") {
+    rows = JSON.parse(text);
+  } else {
+    throw new Error(
+      `Unsupported data file "${name}"; use ${DATA_FILE_EXTENSIONS.join(", ")}`
+    );
+  }
+
+  if (
+    !Array.isArray(rows) ||
+    rows.some((row) => typeof row !== "object" || row === null)
+  ) {
+    throw new Error(`${name} must contain a list of objects`);
+  }
+  return rows as FixtureRow[];
+}
+
+/**
+ * Loads the fixture rows of a table, reading them from a file when `fixtures` is a path.
+ *
+ * @param table - The table definition.
+ * @returns The fixture rows, in order.
+ */
+export async function loadFixtures(table: TableSchema) {
+  if (typeof table.fixtures === "string") {
+    return readDataFile(table.fixtures);
+  }
+  return table.fixtures ?? [];
+}
+
+/**
+ * Makes the fixture file paths of a config absolute, resolving them against the config's directory.
+ *
+ * @param config - The loaded configuration, modified in place.
+ * @param baseDir - The directory of the config file.
+ */
+export function resolveFixturePaths(config: MockliteConfig, baseDir: string) {
+  for (const table of config.schema) {
+    if (typeof table.fixtures === "string") {
+      table.fixtures = path.resolve(baseDir, table.fixtures);
+    }
+  }
+}
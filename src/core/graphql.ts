@@ -0,0 +1,679 @@
+import {
+  GraphQLBoolean,
+  GraphQLEnumType,
+  GraphQLError,
+  GraphQLFloat,
+  GraphQLInputObjectType,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  GraphQLSchema,
+  GraphQLString,
+  valueFromASTUntyped,
+  type GraphQLFieldConfigMap,
+  type GraphQLInputFieldConfigMap,
+  type GraphQLInputType,
+  type GraphQLOutputType,
+} from "graphql";
+import type { Kysely } from "kysely";
+import {
+  fromStorageRow,
+  parseForeignKey,
+  resolveSqlType,
+  toStorageRow,
+} from "./fields";
+import { runAfterRead, runRowHook } from "./hooks";
+import { queryList, relationScope, type ListResult } from "./list";
+import { typeName } from "./naming";
+import { isRequiredField, validatePayload } from "./payload";
+import { QueryError } from "./query";
+import { findTable, getRelations, type Relation } from "./relations";
+import type {
+  FieldType,
+  HookContext,
+  MockliteConfig,
+  SqlType,
+  TableSchema,
+} from "./types";
+
+type Row = Record<string, unknown>;
+
+/**
+ * The context value GraphQL operations are executed with.
+ */
+export interface GraphQLContext {
+  /** The HTTP request, passed on to table hooks. */
+  request: Request;
+}
+
+/**
+ * A GraphQL request, sent as the JSON body of a POST or as the query parameters of a GET.
+ */
+export interface GraphQLRequest {
+  query: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+}
+
+const NAME_PATTERN = /^[_A-Za-z][_0-9A-Za-z]*$/;
+
+const FILTER_OPERATORS = [
+  "eq",
+  "ne",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "nin",
+  "like",
+  "null",
+] as const;
+
+const JSONScalar = new GraphQLScalarType({
+  name: "JSON",
+  description: "Any JSON value.",
+  serialize: (value) => value,
+  parseValue: (value) => value,
+  parseLiteral: (ast, variables) => valueFromASTUntyped(ast, variables),
+});
+
+const PageMeta = new GraphQLObjectType({
+  name: "PageMeta",
+  description:
+    "Offset pages set `page` and `totalPages`; cursor pages set `hasNextPage` and `endCursor`.",
+  fields: {
+    total: { type: new GraphQLNonNull(GraphQLInt) },
+    limit: { type: new GraphQLNonNull(GraphQLInt) },
+    page: { type: GraphQLInt },
+    totalPages: { type: GraphQLInt },
+    hasNextPage: { type: GraphQLBoolean },
+    endCursor: { type: GraphQLString },
+  },
+});
+
+/**
+ * Builds a GraphQL schema over the mock database.
+ * Each table gets an object type, list and get queries with the REST filter, sort and
+ * pagination semantics, and create/update/delete mutations.
+ *
+ * @param db - The Kysely database instance shared with the REST routes.
+ * @param config - The Mocklite configuration object.
+ * @returns The executable schema.
+ */
+export function buildGraphQLSchema(db: Kysely<any>, config: MockliteConfig) {
+  return new SchemaBuilder(db, config).build();
+}
+
+/**
+ * Creates the GraphQL types for a configuration, caching them so relations can refer to each other.
+ * Tables and fields whose names are not valid GraphQL names are left out.
+ */
+class SchemaBuilder {
+  private objectTypes = new Map<string, GraphQLObjectType>();
+  private filterTypes = new Map<string, GraphQLInputObjectType>();
+  private enumTypes = new Map<string, GraphQLEnumType>();
+
+  constructor(private db: Kysely<any>, private config: MockliteConfig) {}
+
+  build() {
+    const tables = this.config.schema.filter((t) => NAME_PATTERN.test(t.table));
+    const query: GraphQLFieldConfigMap<unknown, GraphQLContext> = {};
+    const mutation: GraphQLFieldConfigMap<unknown, GraphQLContext> = {};
+
+    for (const table of tables) {
+      const name = typeName(table.table);
+      const type = this.objectType(table);
+
+      query[table.table] = {
+        type: new GraphQLNonNull(this.pageType(table)),
+        args: {
+          filter: { type: this.filterType(table) },
+          sort: {
+            type: GraphQLString,
+            description:
+              'Comma-separated fields; prefix with "-" for descending.',
+          },
+          q: {
+            type: GraphQLString,
+            description: "Search across all text columns.",
+          },
+          page: { type: GraphQLInt },
+          limit: { type: GraphQLInt },
+          first: {
+            type: GraphQLInt,
+            description: "Page size for cursor pagination.",
+          },
+          after: {
+            type: GraphQLString,
+            description: "Cursor from the previous page's `meta.endCursor`.",
+          },
+        },
+        resolve: (_, args, context) => this.list(table, args, context),
+      };
+
+      // A table with a singular name (e.g., "staff") would clash with its list query
+      const single = name[0]!.toLowerCase() + name.slice(1);
+      const getName =
+        single in query || tables.some((t) => t.table === single)
+          ? `${single}ById`
+          : single;
+      query[getName] = {
+        type,
+        args: { id: { type: new GraphQLNonNull(GraphQLInt) } },
+        resolve: async (_, { id }, context) => {
+          const row = await this.findRow(table, id);
+          return row && this.afterRead(table, row, context, { id });
+        },
+      };
+
+      mutation[`create${name}`] = {
+        type: new GraphQLNonNull(type),
+        args: {
+          input: { type: new GraphQLNonNull(this.inputType(table, false)) },
+        },
+        resolve: (_, { input }, context) => this.create(table, input, context),
+      };
+      mutation[`update${name}`] = {
+        type,
+        description: "Returns null if the row does not exist.",
+        args: {
+          id: { type: new GraphQLNonNull(GraphQLInt) },
+          input: { type: new GraphQLNonNull(this.inputType(table, true)) },
+        },
+        resolve: (_, { id, input }, context) =>
+          this.update(table, id, input, context),
+      };
+      mutation[`delete${name}`] = {
+        type: new GraphQLNonNull(GraphQLBoolean),
+        description: "Returns false if the row does not exist.",
+        args: { id: { type: new GraphQLNonNull(GraphQLInt) } },
+        resolve: (_, { id }) => this.delete(table, id),
+      };
+    }
+
+    return new GraphQLSchema({
+      query: new GraphQLObjectType({ name: "Query", fields: query }),
+      mutation:
+        tables.length > 0
+          ? new GraphQLObjectType({ name: "Mutation", fields: mutation })
+          : undefined,
+    });
+  }
+
+  /**
+   * Gets the object type of a table, with a field per column and per relation.
+   *
+   * @param table - The table definition.
+   * @returns The object type.
+   */
+  private objectType(table: TableSchema): GraphQLObjectType {
+    const cached = this.objectTypes.get(table.table);
+    if (cached) return cached;
+
+    const type = new GraphQLObjectType({
+      name: typeName(table.table),
+      // Resolved lazily so tables can reference each other
+      fields: () => {
+        const fields: GraphQLFieldConfigMap<Row, GraphQLContext> = {};
+
+        for (const [field, def] of this.columns(table)) {
+          const scalar = this.scalarType(table, field, def);
+          fields[field] = {
+            type: isNullable(def) ? scalar : new GraphQLNonNull(scalar),
+          };
+        }
+
+        for (const relation of this.relations(table)) {
+          if (relation.name in fields) continue;
+          fields[relation.name] = this.relationField(relation);
+        }
+        return fields;
+      },
+    });
+
+    this.objectTypes.set(table.table, type);
+    return type;
+  }
+
+  /**
+   * Creates the field resolving a relation from the parent row.
+   * To-one relations return a single row; to-many relations return all related rows.
+   *
+   * @param relation - The relation from the parent table.
+   * @returns The field config.
+   */
+  private relationField(relation: Relation) {
+    const related = findTable(this.config, relation.table)!;
+    const type = this.objectType(related);
+
+    if (relation.kind === "belongsTo" || relation.kind === "hasOne") {
+      return {
+        type,
+        resolve: async (parent: Row, _: unknown, context: GraphQLContext) => {
+          const key = parent[relation.localKey];
+          if (key === null || key === undefined) return null;
+
+          const row = await this.db
+            .selectFrom(related.table)
+            .selectAll()
+            .where(relation.foreignKey, "=", key)
+            .executeTakeFirst();
+          return row
+            ? this.afterRead(related, fromStorageRow(related, row), context)
+            : null;
+        },
+      };
+    }
+
+    return {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(type))),
+      resolve: async (parent: Row, _: unknown, context: GraphQLContext) => {
+        const key = parent[relation.localKey];
+        if (key === null || key === undefined) return [];
+
+        const scope = relationScope(this.db, relation, key);
+        const rows = await scope(
+          this.db.selectFrom(related.table).selectAll(related.table)
+        )
+          .orderBy(`${related.table}.id`)
+          .execute();
+        return Promise.all(
+          rows.map((row) =>
+            this.afterRead(related, fromStorageRow(related, row), context)
+          )
+        );
+      },
+    };
+  }
+
+  /**
+   * Gets the `<Type>Page` type returned by list queries.
+   */
+  private pageType(table: TableSchema) {
+    const type = this.objectType(table);
+    return new GraphQLObjectType({
+      name: `${type.name}Page`,
+      fields: {
+        data: {
+          type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(type))),
+        },
+        meta: { type: new GraphQLNonNull(PageMeta) },
+      },
+    });
+  }
+
+  /**
+   * Gets the `<Type>Filter` input of a table.
+   * Each column accepts the REST operator suffixes (e.g., `age_gte`), and each relation
+   * nests the related table's filter (the GraphQL form of `author.role=admin`).
+   *
+   * @param table - The table definition.
+   * @returns The filter input type.
+   */
+  private filterType(table: TableSchema): GraphQLInputObjectType {
+    const cached = this.filterTypes.get(table.table);
+    if (cached) return cached;
+
+    const type = new GraphQLInputObjectType({
+      name: `${typeName(table.table)}Filter`,
+      fields: () => {
+        const fields: GraphQLInputFieldConfigMap = {};
+
+        for (const [field, def] of this.columns(table)) {
+          if (resolveSqlType(def) === "json") continue;
+
+          const scalar = this.scalarType(table, field, def);
+          fields[field] = { type: scalar };
+          for (const op of FILTER_OPERATORS) {
+            fields[`${field}_${op}`] = {
+              type:
+                op === "in" || op === "nin"
+                  ? new GraphQLList(new GraphQLNonNull(scalar))
+                  : op === "null"
+                  ? GraphQLBoolean
+                  : op === "like"
+                  ? GraphQLString
+                  : scalar,
+            };
+          }
+        }
+
+        for (const relation of this.relations(table)) {
+          if (relation.name in fields) continue;
+          const related = findTable(this.config, relation.table)!;
+          fields[relation.name] = { type: this.filterType(related) };
+        }
+        return fields;
+      },
+    });
+
+    this.filterTypes.set(table.table, type);
+    return type;
+  }
+
+  /**
+   * Gets the input type of a table's create (`<Type>Input`) or update (`<Type>Patch`) mutation.
+   *
+   * @param table - The table definition.
+   * @param partial - Whether every field is optional (update).
+   * @returns The input type.
+   */
+  private inputType(table: TableSchema, partial: boolean) {
+    const name = typeName(table.table);
+    const fields: GraphQLInputFieldConfigMap = {};
+
+    for (const [field, def] of this.columns(table)) {
+      if (def === "pk") continue;
+      const scalar = this.scalarType(table, field, def);
+      fields[field] = {
+        type:
+          !partial && isRequiredField(def)
+            ? new GraphQLNonNull(scalar)
+            : scalar,
+      };
+    }
+
+    return new GraphQLInputObjectType({
+      name: partial ? `${name}Patch` : `${name}Input`,
+      fields,
+    });
+  }
+
+  /**
+   * Maps a column to a GraphQL scalar or enum type.
+   * Keys are Int; other integers are Float, since generated numbers often exceed 32 bits.
+   */
+  private scalarType(
+    table: TableSchema,
+    field: string,
+    def: FieldType
+  ): GraphQLInputType & GraphQLOutputType {
+    if (def === "pk" || parseForeignKey(def)) {
+      return GraphQLInt;
+    }
+
+    const values = typeof def === "object" && def.type === "enum" && def.values;
+    if (
+      values &&
+      values.every((v) => typeof v === "string" && NAME_PATTERN.test(v))
+    ) {
+      return this.enumType(table, field, values as string[]);
+    }
+
+    const types: Record<SqlType, GraphQLInputType & GraphQLOutputType> = {
+      integer: GraphQLFloat,
+      real: GraphQLFloat,
+      text: GraphQLString,
+      boolean: GraphQLBoolean,
+      json: JSONScalar,
+      datetime: GraphQLString,
+    };
+    return types[resolveSqlType(def)];
+  }
+
+  private enumType(table: TableSchema, field: string, values: string[]) {
+    const name =
+      typeName(table.table) + field[0]!.toUpperCase() + field.slice(1);
+
+    let type = this.enumTypes.get(name);
+    if (!type) {
+      type = new GraphQLEnumType({
+        name,
+        values: Object.fromEntries(values.map((v) => [v, { value: v }])),
+      });
+      this.enumTypes.set(name, type);
+    }
+    return type;
+  }
+
+  /**
+   * Lists the columns of a table that can be exposed.
+   */
+  private columns(table: TableSchema) {
+    return Object.entries(table.fields).filter(([field]) =>
+      NAME_PATTERN.test(field)
+    );
+  }
+
+  /**
+   * Lists the relations of a table whose name and target can be exposed.
+   */
+  private relations(table: TableSchema) {
+    return getRelations(this.config, table.table).filter(
+      (r) => NAME_PATTERN.test(r.name) && NAME_PATTERN.test(r.table)
+    );
+  }
+
+  /**
+   * Resolves a list query through the same code path as `GET /<table>`.
+   *
+   * @param table - The table definition.
+   * @param args - The query arguments.
+   * @param context - The GraphQL request context.
+   * @returns The page of rows and its metadata.
+   */
+  private async list(
+    table: TableSchema,
+    args: Record<string, any>,
+    context: GraphQLContext
+  ) {
+    const { filter, ...rest } = args;
+    const params: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(rest)) {
+      if (value !== null && value !== undefined) params[key] = String(value);
+    }
+    if (filter) flattenFilter(filter, "", params);
+
+    let result: ListResult;
+    try {
+      result = await queryList(this.db, this.config, table, params);
+    } catch (error) {
+      if (error instanceof QueryError) {
+        throw new GraphQLError(error.message, {
+          extensions: { code: "BAD_USER_INPUT" },
+        });
+      }
+      throw error;
+    }
+
+    const data = await runAfterRead(
+      table.hooks,
+      result.rows.map((row) => fromStorageRow(table, row)),
+      this.hookContext(table, context)
+    );
+    if (data instanceof Response) throw await hookError(data);
+    return { data, meta: result.meta };
+  }
+
+  private async findRow(table: TableSchema, id: number) {
+    const row = await this.db
+      .selectFrom(table.table)
+      .selectAll()
+      .where("id", "=", id)
+      .executeTakeFirst();
+    return row ? fromStorageRow(table, row) : null;
+  }
+
+  private async create(
+    table: TableSchema,
+    input: Row,
+    context: GraphQLContext
+  ) {
+    await this.assertValid(table, input, false);
+
+    const hookContext = this.hookContext(table, context);
+    const row = await runRowHook(
+      table.hooks,
+      "beforeCreate",
+      input,
+      hookContext
+    );
+    if (row instanceof Response) throw await hookError(row);
+
+    const result = await this.db
+      .insertInto(table.table)
+      .values(toStorageRow(table, row))
+      .executeTakeFirst();
+
+    const created = await this.findRow(table, Number(result.insertId));
+    return this.afterRead(table, created!, context);
+  }
+
+  /**
+   * Applies a partial update. Like PATCH, the `beforeUpdate` hook sees the whole new state of the row.
+   */
+  private async update(
+    table: TableSchema,
+    id: number,
+    input: Row,
+    context: GraphQLContext
+  ) {
+    await this.assertValid(table, input, true);
+
+    const current = await this.findRow(table, id);
+    if (!current) return null;
+
+    const { id: _, ...fields } = current;
+    const hookContext = this.hookContext(table, context, { id });
+    const row = await runRowHook(
+      table.hooks,
+      "beforeUpdate",
+      { ...fields, ...input },
+      hookContext
+    );
+    if (row instanceof Response) throw await hookError(row);
+
+    await this.db
+      .updateTable(table.table)
+      .set(toStorageRow(table, row))
+      .where("id", "=", id)
+      .execute();
+
+    const updated = await this.findRow(table, id);
+    return this.afterRead(table, updated!, context, { id });
+  }
+
+  /**
+   * Runs the table's `afterRead` hook on a row about to be returned.
+   *
+   * @throws {GraphQLError} If the hook returns a `Response`.
+   */
+  private async afterRead(
+    table: TableSchema,
+    row: Row,
+    context: GraphQLContext,
+    params: Record<string, unknown> = {}
+  ) {
+    const result = await runRowHook(
+      table.hooks,
+      "afterRead",
+      row,
+      this.hookContext(table, context, params)
+    );
+    if (result instanceof Response) throw await hookError(result);
+    return result;
+  }
+
+  private hookContext(
+    table: TableSchema,
+    context: GraphQLContext,
+    params: Record<string, unknown> = {}
+  ): HookContext {
+    return {
+      table: table.table,
+      request: context.request,
+      params: Object.fromEntries(
+        Object.entries(params).map(([key, value]) => [key, String(value)])
+      ),
+      query: {},
+      db: this.db,
+    };
+  }
+
+  private async delete(table: TableSchema, id: number) {
+    try {
+      const result = await this.db
+        .deleteFrom(table.table)
+        .where("id", "=", id)
+        .executeTakeFirst();
+      return Number(result.numDeletedRows) > 0;
+    } catch (error: unknown) {
+      // Rows still referenced through an onDelete "restrict" relation
+      if (error instanceof Error && error.message.includes("FOREIGN KEY")) {
+        throw new GraphQLError(error.message, {
+          extensions: { code: "CONFLICT" },
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Validates mutation input with the same rules as the REST request bodies.
+   *
+   * @throws {GraphQLError} With the per-field errors in `extensions.errors`.
+   */
+  private async assertValid(table: TableSchema, input: Row, partial: boolean) {
+    const errors = await validatePayload(this.db, table, input, { partial });
+    if (errors.length > 0) {
+      throw new GraphQLError("Validation failed", {
+        extensions: { code: "BAD_USER_INPUT", errors },
+      });
+    }
+  }
+}
+
+/**
+ * Turns a `Response` returned by a hook into a GraphQL error carrying its status and body.
+ */
+async function hookError(response: Response) {
+  const text = await response.text();
+  let body: unknown = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Keep non-JSON bodies as text
+  }
+
+  const message =
+    typeof body === "object" && body !== null && "error" in body
+      ? String(body.error)
+      : `Request rejected with status ${response.status}`;
+  return new GraphQLError(message, {
+    extensions: { code: "HOOK_RESPONSE", status: response.status, body },
+  });
+}
+
+function isNullable(def: FieldType) {
+  return def !== "pk" && !(typeof def === "object" && def.nullable === false);
+}
+
+/**
+ * Converts a filter input into REST query parameters (e.g., `{ author: { role: "admin" } }`
+ * becomes `author.role=admin`), so filters are parsed exactly like query strings.
+ */
+function flattenFilter(
+  filter: Record<string, unknown>,
+  prefix: string,
+  params: Record<string, string>
+) {
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === null || value === undefined) continue;
+
+    if (Array.isArray(value)) {
+      params[prefix + key] = value.join(",");
+    } else if (typeof value === "object") {
+      flattenFilter(
+        value as Record<string, unknown>,
+        `${prefix}${key}.`,
+        params
+      );
+    } else {
+      params[prefix + key] = String(value);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import type { HookContext, HookRow, TableHooks } from "./types";
+
+/**
+ * The table hooks that receive a row.
+ */
+export type RowHook = "beforeCreate" | "beforeUpdate" | "afterRead";
+
+/**
+ * Runs a row hook of a table.
+ * The hook may change the row in place, return a replacement row, or return a `Response`.
+ *
+ * @param hooks - The table's hooks.
+ * @param name - The hook to run.
+ * @param row - The row passed to the hook.
+ * @param context - The request the hook runs for.
+ * @returns The row to continue with, or a `Response` to send instead.
+ */
+export async function runRowHook(
+  hooks: TableHooks | undefined,
+  name: RowHook,
+  row: HookRow,
+  context: HookContext
+): Promise<HookRow | Response> {
+  const hook = hooks?.[name];
+  if (!hook) return row;
+
+  const result = await hook(row, context);
+  return result ?? row;
+}
+
+/**
+ * Runs the `afterRead` hook on each row of a result.
+ *
+ * @param hooks - The table's hooks.
+ * @param rows - The rows about to be sent.
+ * @param context - The request the hook runs for.
+ * @returns The rows to send, or the first `Response` a hook returned.
+ */
+export async function runAfterRead(
+  hooks: TableHooks | undefined,
+  rows: HookRow[],
+  context: HookContext
+): Promise<HookRow[] | Response> {
+  if (!hooks?.afterRead) return rows;
+
+  const result: HookRow[] = [];
+  for (const row of rows) {
+    const next = await runRowHook(hooks, "afterRead", row, context);
+    if (next instanceof Response) return next;
+    result.push(next);
+  }
+  return result;
+}
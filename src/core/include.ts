@@ -0,0 +1,186 @@
+import type { ExpressionBuilder, SelectQueryBuilder } from "kysely";
+import { jsonArrayFrom, jsonObjectFrom } from "kysely/helpers/sqlite";
+import { fromStorageRow } from "./fields";
+import { QueryError } from "./query";
+import { findRelation, findTable, type Relation } from "./relations";
+import type { MockliteConfig } from "./types";
+
+/**
+ * A relation to embed in the response, with the relations nested inside it.
+ */
+export interface IncludeNode {
+  /** The name used in the `include` parameter; also the response key. */
+  name: string;
+  /** The dotted path from the queried table (e.g., `comments.author`). */
+  path: string;
+  relation: Relation;
+  children: IncludeNode[];
+}
+
+type AnySelectQuery = SelectQueryBuilder<any, any, any>;
+
+/**
+ * Parses a comma-separated include parameter with dotted nested paths
+ * (e.g., `author,comments.author`) into a tree of relations.
+ *
+ * @param config - The Mocklite configuration object.
+ * @param tableName - The queried table.
+ * @param raw - The raw `include` parameter.
+ * @returns The top-level include nodes.
+ * @throws {QueryError} If a name is not a relation of its parent table.
+ */
+export function parseIncludes(
+  config: MockliteConfig,
+  tableName: string,
+  raw?: string
+): IncludeNode[] {
+  const roots: IncludeNode[] = [];
+  if (!raw) return roots;
+
+  for (const item of raw.split(",")) {
+    const path = item.trim();
+    if (!path) continue;
+
+    let nodes = roots;
+    let current = tableName;
+    const walked: string[] = [];
+
+    for (const name of path.split(".")) {
+      walked.push(name);
+      let node = nodes.find((n) => n.name === name);
+
+      if (!node) {
+        const relation = findRelation(config, current, name);
+        if (!relation) {
+          throw new QueryError(`Unknown include "${name}" on ${current}`);
+        }
+        node = { name, path: walked.join("."), relation, children: [] };
+        nodes.push(node);
+      }
+
+      nodes = node.children;
+      current = node.relation.table;
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Embeds included relations in a select query as JSON columns:
+ * an object for BelongsTo and HasOne, an array for HasMany and ManyToMany.
+ *
+ * @param query - The query to extend.
+ * @param config - The Mocklite configuration object.
+ * @param tableName - The queried table (used to qualify column references).
+ * @param includes - The parsed include tree.
+ * @param fields - Sparse fieldsets per include path; all columns are selected when absent.
+ * @returns The query with the relations selected.
+ */
+export function applyIncludes<QB extends AnySelectQuery>(
+  query: QB,
+  config: MockliteConfig,
+  tableName: string,
+  includes: IncludeNode[],
+  fields: Record<string, string[]> = {}
+): QB {
+  if (includes.length === 0) return query;
+
+  // Shared across the whole tree so nested subqueries never reuse an alias
+  const aliases = { next: 0 };
+  return query.select((eb) =>
+    includes.map((node) =>
+      buildInclude(eb, config, node, tableName, fields, aliases)
+    )
+  ) as QB;
+}
+
+function buildInclude(
+  eb: ExpressionBuilder<any, any>,
+  config: MockliteConfig,
+  node: IncludeNode,
+  parentAlias: string,
+  fields: Record<string, string[]>,
+  aliases: { next: number }
+) {
+  const { relation } = node;
+  const alias = `i${aliases.next++}`;
+  const columns =
+    fields[node.path] ??
+    Object.keys(findTable(config, relation.table)?.fields ?? {});
+
+  let sub = eb
+    .selectFrom(`${relation.table} as ${alias}`)
+    .select(columns.map((column) => `${alias}.${column}`));
+
+  if (relation.through) {
+    const { through } = relation;
+    const join = `${alias}_t`;
+    sub = sub.where(
+      `${alias}.${relation.foreignKey}`,
+      "in",
+      eb
+        .selectFrom(`${through.table} as ${join}`)
+        .select(`${join}.${through.targetKey}`)
+        .whereRef(
+          `${join}.${through.sourceKey}`,
+          "=",
+          `${parentAlias}.${relation.localKey}`
+        )
+    );
+  } else {
+    sub = sub.whereRef(
+      `${alias}.${relation.foreignKey}`,
+      "=",
+      `${parentAlias}.${relation.localKey}`
+    );
+  }
+
+  if (node.children.length > 0) {
+    sub = sub.select((inner) =>
+      node.children.map((child) =>
+        buildInclude(inner, config, child, alias, fields, aliases)
+      )
+    );
+  }
+
+  return relation.kind === "belongsTo" || relation.kind === "hasOne"
+    ? jsonObjectFrom(sub).as(node.name)
+    : jsonArrayFrom(sub).as(node.name);
+}
+
+/**
+ * Converts query results to their API representation, including the rows of included relations.
+ *
+ * @param config - The Mocklite configuration object.
+ * @param tableName - The table the data belongs to.
+ * @param data - A row, a list of rows, or null.
+ * @param includes - The included relations embedded in the data.
+ * @returns The converted data.
+ */
+export function fromStorageResult(
+  config: MockliteConfig,
+  tableName: string,
+  data: unknown,
+  includes: IncludeNode[] = []
+): unknown {
+  const table = findTable(config, tableName);
+  if (!table || !data) return data;
+
+  if (Array.isArray(data)) {
+    return data.map((item) =>
+      fromStorageResult(config, tableName, item, includes)
+    );
+  }
+
+  const row = fromStorageRow(table, data as Record<string, unknown>);
+  for (const node of includes) {
+    row[node.name] = fromStorageResult(
+      config,
+      node.relation.table,
+      row[node.name],
+      node.children
+    );
+  }
+  return row;
+}
@@ -0,0 +1,207 @@
+import type { Kysely, SelectQueryBuilder } from "kysely";
+import { applyIncludes, parseIncludes, type IncludeNode } from "./include";
+import {
+  applyCursor,
+  cursorKeys,
+  decodeCursor,
+  encodeCursor,
+  parseLimit,
+  resolvePagination,
+  selectCursorColumns,
+  stripCursorColumns,
+} from "./pagination";
+import {
+  applyFilters,
+  applySearch,
+  applySort,
+  parseFields,
+  parseFilters,
+  parseSort,
+} from "./query";
+import type { Relation } from "./relations";
+import type { MockliteConfig, PaginationOptions, TableSchema } from "./types";
+
+/**
+ * Restricts a select query, keeping its type.
+ */
+export type QueryScope = <QB extends SelectQueryBuilder<any, any, any>>(
+  query: QB
+) => QB;
+
+/**
+ * A page of rows from a list query, with what is needed to shape the response.
+ */
+export interface ListResult {
+  /** The rows, in storage representation. */
+  rows: Record<string, unknown>[];
+  /** The included relations embedded in the rows. */
+  includes: IncludeNode[];
+  total: number;
+  /** Offset (`page`, `totalPages`) or cursor (`hasNextPage`, `endCursor`) metadata. */
+  meta: Record<string, unknown>;
+  /** Query parameters for each pagination link (e.g., `{ next: { page: "3" } }`). */
+  links: Record<string, Record<string, string | null>>;
+  options: Required<PaginationOptions>;
+}
+
+/**
+ * Runs a list query: filters, search, sorting, sparse fieldsets and includes,
+ * with offset (`page`/`limit`) or cursor (`after`/`first`) pagination.
+ * Shared by the REST list routes and GraphQL.
+ *
+ * @param db - The Kysely database instance.
+ * @param config - The Mocklite configuration object.
+ * @param table - The table definition.
+ * @param params - List query parameters, in their REST query string form.
+ * @param scope - Extra restriction applied to both the count and data queries (used by nested routes).
+ * @returns The page of rows and its metadata.
+ * @throws {QueryError} If a parameter is invalid.
+ */
+export async function queryList(
+  db: Kysely<any>,
+  config: MockliteConfig,
+  table: TableSchema,
+  params: Record<string, string>,
+  scope: QueryScope = (query) => query
+): Promise<ListResult> {
+  const tableName = table.table;
+  const { include, page, limit, after, first, sort, fields, q, ...filters } =
+    params;
+
+  const options = resolvePagination(config, table);
+  const useCursor =
+    after !== undefined ||
+    first !== undefined ||
+    (options.style === "cursor" && page === undefined);
+  const limitNum = parseLimit(useCursor ? first ?? limit : limit, options);
+
+  const includes = parseIncludes(config, tableName, include);
+  const selection = parseFields(config, table, fields);
+  const parsedFilters = parseFilters(config, table, filters);
+  const sortKeys = parseSort(table, sort);
+
+  let countQuery = db
+    .selectFrom(tableName)
+    .select((eb: any) => eb.fn.countAll().as("total"));
+  countQuery = applyFilters(countQuery, config, tableName, parsedFilters);
+  countQuery = applySearch(countQuery, table, q);
+  countQuery = scope(countQuery);
+
+  let dataQuery = selectColumns(db, tableName, selection.fields);
+  dataQuery = applyFilters(dataQuery, config, tableName, parsedFilters);
+  dataQuery = applySearch(dataQuery, table, q);
+  dataQuery = scope(dataQuery);
+
+  const countResult = await countQuery.executeTakeFirst();
+  const total = Number((countResult as any)?.total || 0);
+
+  // RELATIONAL LOGIC HANDLING
+  dataQuery = applyIncludes(
+    dataQuery,
+    config,
+    tableName,
+    includes,
+    selection.relations
+  );
+
+  let data: Record<string, unknown>[];
+  let meta: Record<string, unknown>;
+  const links: Record<string, Record<string, string | null>> = {};
+
+  if (useCursor) {
+    const keys = cursorKeys(sortKeys);
+    dataQuery = selectCursorColumns(dataQuery, tableName, keys);
+    if (after) {
+      const values = decodeCursor(keys, after);
+      dataQuery = applyCursor(dataQuery, tableName, keys, values);
+    }
+
+    // Fetch one extra row to find out whether there is a next page
+    const rows = await applySort(dataQuery, tableName, keys)
+      .limit(limitNum + 1)
+      .execute();
+    const pageRows = rows.slice(0, limitNum);
+    const hasNextPage = rows.length > limitNum;
+    const lastRow = pageRows[pageRows.length - 1];
+    const endCursor = lastRow ? encodeCursor(keys, lastRow) : null;
+
+    data = pageRows.map(stripCursorColumns);
+    meta = { total, limit: limitNum, hasNextPage, endCursor };
+
+    links.first = { after: null, page: null, first: String(limitNum) };
+    if (hasNextPage && endCursor) {
+      links.next = { after: endCursor, page: null, first: String(limitNum) };
+    }
+  } else {
+    const pageNum = Math.max(Math.floor(Number(page)) || 1, 1);
+    const offset = (pageNum - 1) * limitNum;
+
+    data = await applySort(dataQuery, tableName, sortKeys)
+      .limit(limitNum)
+      .offset(offset)
+      .execute();
+
+    const totalPages = Math.ceil(total / limitNum);
+    meta = { total, page: pageNum, limit: limitNum, totalPages };
+
+    const pageLink = (n: number) => ({
+      page: String(n),
+      limit: String(limitNum),
+    });
+    links.first = pageLink(1);
+    if (pageNum > 1) links.prev = pageLink(Math.min(pageNum - 1, totalPages));
+    if (pageNum < totalPages) links.next = pageLink(pageNum + 1);
+    links.last = pageLink(Math.max(totalPages, 1));
+  }
+
+  return { rows: data, includes, total, meta, links, options };
+}
+
+/**
+ * Starts a select on a table, restricted to a sparse fieldset if one was requested.
+ *
+ * @param db - The Kysely database instance.
+ * @param tableName - The table to select from.
+ * @param fields - The columns to select, or null for all of them.
+ * @returns The select query.
+ */
+export function selectColumns(
+  db: Kysely<any>,
+  tableName: string,
+  fields: string[] | null
+) {
+  const query = db.selectFrom(tableName);
+  return fields
+    ? query.select(fields.map((field) => `${tableName}.${field}`))
+    : query.selectAll(tableName);
+}
+
+/**
+ * Restricts queries on a relation's target table to the rows related to one parent row.
+ *
+ * @param db - The Kysely database instance.
+ * @param relation - The relation from the parent table.
+ * @param key - The parent's local key value.
+ * @returns The scope to apply to queries on the related table.
+ */
+export function relationScope(
+  db: Kysely<any>,
+  relation: Relation,
+  key: unknown
+): QueryScope {
+  const column = `${relation.table}.${relation.foreignKey}`;
+  const { through } = relation;
+
+  return (query) => {
+    if (!through) return query.where(column, "=", key) as typeof query;
+
+    return query.where(
+      column,
+      "in",
+      db
+        .selectFrom(through.table)
+        .select(through.targetKey)
+        .where(through.sourceKey, "=", key)
+    ) as typeof query;
+  };
+}
@@ -0,0 +1,228 @@
+import { sql } from "kysely";
+import pc from "picocolors";
+import type { MockDatabase } from "./db";
+import { fromStorageRow, parseForeignKey, serializeField } from "./fields";
+import { Seeder } from "./seeder";
+import type { FieldType, TableSchema } from "./types";
+
+/**
+ * A single schema change needed to bring the database in line with the config.
+ */
+export type MigrationStep =
+  | { kind: "createTable"; table: TableSchema }
+  | { kind: "dropTable"; table: string }
+  | { kind: "addColumn"; table: string; field: string; def: FieldType }
+  | { kind: "dropColumn"; table: string; field: string };
+
+/**
+ * The full set of changes between the stored schema and the current config.
+ */
+export interface MigrationPlan {
+  steps: MigrationStep[];
+  /** Changes that cannot be applied automatically and are left as-is. */
+  warnings: string[];
+}
+
+/**
+ * Computes and applies schema migrations between runs.
+ */
+export class Migrator {
+  constructor(private dbEngine: MockDatabase) {}
+
+  /**
+   * Diffs the schema stored in the database against the current table definitions.
+   *
+   * @param current - The table definitions from the config.
+   * @returns The migration plan, or null if the database has no recorded schema.
+   */
+  async plan(current: TableSchema[]): Promise<MigrationPlan | null> {
+    const previous = await this.dbEngine.getStoredSchema();
+    if (!previous) return null;
+    return diffSchemas(previous, current);
+  }
+
+  /**
+   * Applies a migration plan and records the new schema, in one transaction:
+   * if a step fails, the database is left as it was.
+   * Added columns are backfilled using the field's generator; computed fields see the row's
+   * other values and its parent rows.
+   *
+   * @param plan - The plan to apply.
+   * @param current - The table definitions the database should end up matching.
+   */
+  async apply(plan: MigrationPlan, current: TableSchema[]) {
+    await this.dbEngine.withTransaction(async (dbEngine) => {
+      const db = dbEngine.getInstance();
+      for (const step of plan.steps) {
+        switch (step.kind) {
+          case "createTable":
+            await dbEngine.createTable(step.table, current);
+            console.log(pc.green(`   ✓ Table created: ${step.table.table}`));
+            break;
+
+          case "dropTable":
+            await dbEngine.dropTable(step.table);
+            console.log(pc.green(`   ✓ Table dropped: ${step.table}`));
+            break;
+
+          case "addColumn": {
+            await dbEngine.addColumn(step.table, step.field, step.def, current);
+
+            // Alias rowid explicitly; SQLite reports it under the PK column name otherwise
+            const rows = await db
+              .selectFrom(step.table)
+              .selectAll()
+              .select(sql<number>`rowid`.as("_rowid"))
+              .execute();
+            const table = current.find((t) => t.table === step.table)!;
+            // A new seeder per step, so parent rows backfilled by earlier steps are read again
+            const seeder = new Seeder(db);
+            const resolve = await seeder.createResolver(
+              { schema: current },
+              table
+            );
+
+            for (const [index, row] of rows.entries()) {
+              const value = await seeder.generateValue(
+                step.def,
+                fromStorageRow(table, row),
+                index,
+                resolve
+              );
+              await db
+                .updateTable(step.table)
+                .set({ [step.field]: value })
+                .where(sql`rowid`, "=", row._rowid)
+                .execute();
+            }
+
+            await dbEngine.createIndex(step.table, step.field, step.def);
+
+            console.log(
+              pc.green(`   ✓ Column added: ${step.table}.${step.field}`) +
+                pc.dim(` (backfilled ${rows.length} rows)`)
+            );
+            break;
+          }
+
+          case "dropColumn":
+            await dbEngine.dropColumn(step.table, step.field);
+            console.log(
+              pc.green(`   ✓ Column dropped: ${step.table}.${step.field}`)
+            );
+            break;
+        }
+      }
+
+      await dbEngine.saveSchema(current);
+    });
+  }
+}
+
+/**
+ * Computes the steps needed to turn one schema into another.
+ * New tables are created before columns are added so FK targets exist.
+ *
+ * @param previous - The table definitions the database was built from.
+ * @param current - The table definitions from the config.
+ * @returns The migration plan.
+ */
+export function diffSchemas(
+  previous: TableSchema[],
+  current: TableSchema[]
+): MigrationPlan {
+  const steps: MigrationStep[] = [];
+  const warnings: string[] = [];
+  const previousByName = new Map(previous.map((t) => [t.table, t]));
+  const currentNames = new Set(current.map((t) => t.table));
+
+  for (const table of current) {
+    if (!previousByName.has(table.table)) {
+      steps.push({ kind: "createTable", table });
+    }
+  }
+
+  for (const table of current) {
+    const before = previousByName.get(table.table);
+    if (!before) continue;
+
+    for (const [field, def] of Object.entries(table.fields)) {
+      const oldDef = before.fields[field];
+
+      if (oldDef === undefined) {
+        if (def === "pk") {
+          warnings.push(
+            `Cannot add primary key ${table.table}.${field} to an existing table`
+          );
+        } else {
+          steps.push({ kind: "addColumn", table: table.table, field, def });
+        }
+        continue;
+      }
+
+      if (
+        JSON.stringify(serializeField(oldDef)) !==
+        JSON.stringify(serializeField(def))
+      ) {
+        warnings.push(
+          `Definition of ${table.table}.${field} changed; existing values are kept`
+        );
+      }
+    }
+
+    for (const [field, oldDef] of Object.entries(before.fields)) {
+      if (table.fields[field] !== undefined) continue;
+
+      // SQLite cannot drop primary key or foreign key columns
+      if (oldDef === "pk" || parseForeignKey(oldDef)) {
+        warnings.push(
+          `Cannot drop key column ${table.table}.${field}; it is kept in the database`
+        );
+      } else {
+        steps.push({ kind: "dropColumn", table: table.table, field });
+      }
+    }
+  }
+
+  for (const table of previous) {
+    if (!currentNames.has(table.table)) {
+      steps.push({ kind: "dropTable", table: table.table });
+    }
+  }
+
+  return { steps, warnings };
+}
+
+/**
+ * Prints a human-readable summary of a migration plan.
+ *
+ * @param plan - The plan to print.
+ */
+export function printMigrationPlan(plan: MigrationPlan) {
+  if (plan.steps.length === 0 && plan.warnings.length === 0) {
+    console.log(pc.green("✓ Database schema is up to date."));
+    return;
+  }
+
+  console.log(pc.cyan("📋 Migration plan:"));
+  for (const step of plan.steps) {
+    switch (step.kind) {
+      case "createTable":
+        console.log(pc.green(`   + create table ${step.table.table}`));
+        break;
+      case "dropTable":
+        console.log(pc.red(`   - drop table ${step.table}`));
+        break;
+      case "addColumn":
+        console.log(pc.green(`   + add column ${step.table}.${step.field}`));
+        break;
+      case "dropColumn":
+        console.log(pc.red(`   - drop column ${step.table}.${step.field}`));
+        break;
+    }
+  }
+
+  for (const warning of plan.warnings) {
+    console.log(pc.yellow(`   ⚠️  ${warning}`));
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Turns a table name into a singular PascalCase type name (e.g., "blog_posts" -> "BlogPost").
+ * Only common English plural endings are handled; anything else is kept as is.
+ *
+ * @param tableName - The table name.
+ * @returns The type name.
+ */
+export function typeName(tableName: string) {
+  const pascal = tableName
+    .split(/[_\-\s]+/)
+    .filter(Boolean)
+    .map((part) => part[0]!.toUpperCase() + part.slice(1))
+    .join("");
+
+  return singularize(pascal);
+}
+
+function singularize(word: string) {
+  if (/ies$/.test(word)) return word.slice(0, -3) + "y";
+  if (/(ss|x|z|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (/[^su]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
@@ -0,0 +1,223 @@
+import type { Context, MiddlewareHandler } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { STATUS_CODES } from "http";
+import { ADMIN_PREFIX } from "./admin";
+import type {
+  Latency,
+  MockliteConfig,
+  NetworkRule,
+  SimulatedError,
+} from "./types";
+
+/**
+ * Endpoints that serve Mocklite itself rather than the mocked API.
+ * Rules only apply to them when they set `internal: true`.
+ */
+const INTERNAL_PATHS = [
+  "/",
+  "/docs",
+  "/openapi.json",
+  `${ADMIN_PREFIX}/**`,
+].map(compileGlob);
+
+/** How often a throttled response sends a chunk. */
+const CHUNKS_PER_SECOND = 10;
+
+const DEFAULT_TIMEOUT = 5000;
+
+const DEFAULT_ERROR: SimulatedError = { status: 500 };
+
+/**
+ * Lists the network rules of a config. The legacy `delay` and `errorRate` options
+ * become a final rule that applies to every request no other rule matches.
+ *
+ * @param config - The Mocklite configuration object.
+ * @returns The rules, in matching order.
+ */
+export function getNetworkRules(config: MockliteConfig): NetworkRule[] {
+  const rules = [...(config.network ?? [])];
+  if (config.delay || config.errorRate) {
+    rules.push({ latency: config.delay, errorRate: config.errorRate });
+  }
+  return rules;
+}
+
+/**
+ * Creates the middleware that simulates network conditions.
+ * OPTIONS requests are never delayed or failed, so CORS preflights keep working.
+ *
+ * @param config - The Mocklite configuration object.
+ * @returns The Hono middleware.
+ */
+export function networkSimulation(config: MockliteConfig): MiddlewareHandler {
+  const rules = getNetworkRules(config).map((rule) => ({
+    rule,
+    methods:
+      rule.method === undefined ? null : ([rule.method].flat() as string[]),
+    path: rule.path === undefined ? null : compileGlob(rule.path),
+  }));
+
+  return async (c, next) => {
+    if (c.req.method === "OPTIONS" || rules.length === 0) return next();
+
+    const path = c.req.path;
+    const internal = INTERNAL_PATHS.some((pattern) => pattern.test(path));
+    const rule = rules.find(
+      (r) =>
+        (!internal || r.rule.internal) &&
+        (!r.methods || r.methods.includes(c.req.method)) &&
+        (!r.path || r.path.test(path))
+    )?.rule;
+    if (!rule) return next();
+
+    if (chance(rule.hangRate)) {
+      await aborted(c.req.raw.signal);
+      return c.body(null, 504);
+    }
+
+    if (chance(rule.timeoutRate)) {
+      await sleep(rule.timeoutAfter ?? DEFAULT_TIMEOUT);
+      return sendError(c, { status: 504 });
+    }
+
+    if (rule.latency !== undefined) {
+      await sleep(sampleLatency(rule.latency));
+    }
+
+    if (chance(rule.errorRate)) {
+      return sendError(c, pickError(rule.errors ?? [DEFAULT_ERROR]));
+    }
+
+    await next();
+
+    if (rule.bandwidth) {
+      c.res = throttle(c.res, rule.bandwidth);
+    }
+  };
+}
+
+/**
+ * Converts a path glob to a regular expression.
+ * `*` matches within a segment, `/**` any number of segments (including none),
+ * and `:name` a whole segment, like a route parameter.
+ *
+ * @param glob - The path glob (e.g., "/users/*", "/posts/**").
+ * @returns The anchored regular expression.
+ */
+export function compileGlob(glob: string) {
+  const source = glob.replace(
+    /\/\*\*|\*\*|\*|\?|:[A-Za-z_]\w*|[.+^${}()|[\]\\]/g,
+    (token) => {
+      if (token === "/**") return "(?:/.*)?";
+      if (token === "**") return ".*";
+      if (token === "*") return "[^/]*";
+      if (token === "?") return "[^/]";
+      if (token.startsWith(":")) return "[^/]+";
+      return `\\${token}`;
+    }
+  );
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Picks a delay from a latency distribution.
+ *
+ * @param latency - The latency option of a rule.
+ * @returns The delay in milliseconds (never negative).
+ */
+export function sampleLatency(latency: Latency) {
+  if (typeof latency === "number") return latency;
+
+  if ("min" in latency) {
+    return latency.min + Math.random() * (latency.max - latency.min);
+  }
+
+  // Box-Muller transform; 1 - random() avoids log(0)
+  const u = 1 - Math.random();
+  const v = Math.random();
+  const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  return Math.max(0, latency.mean + z * latency.jitter);
+}
+
+function pickError(errors: SimulatedError[]) {
+  const total = errors.reduce((sum, e) => sum + (e.weight ?? 1), 0);
+  let roll = Math.random() * total;
+  for (const error of errors) {
+    roll -= error.weight ?? 1;
+    if (roll < 0) return error;
+  }
+  return errors[errors.length - 1]!;
+}
+
+function sendError(c: Context, error: SimulatedError) {
+  const headers = { ...error.headers };
+  if (error.retryAfter !== undefined) {
+    headers["Retry-After"] = String(error.retryAfter);
+  }
+
+  const status = error.status as ContentfulStatusCode;
+  const body = error.body ?? { error: STATUS_CODES[error.status] ?? "Error" };
+  return typeof body === "string"
+    ? c.text(body, status, headers)
+    : c.json(body, status, headers);
+}
+
+/**
+ * Re-streams a response body at a limited rate, in chunks sent every 1/`CHUNKS_PER_SECOND` of a second.
+ *
+ * @param response - The response to throttle.
+ * @param bytesPerSecond - The throughput.
+ * @returns A response with the same status and headers.
+ */
+function throttle(response: Response, bytesPerSecond: number) {
+  if (!response.body) return response;
+
+  const reader = response.body.getReader();
+  const chunkSize = Math.max(1, Math.ceil(bytesPerSecond / CHUNKS_PER_SECOND));
+  let pending = new Uint8Array(0);
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (pending.length === 0) {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          return;
+        }
+        pending = value;
+      }
+
+      const chunk = pending.subarray(0, chunkSize);
+      pending = pending.subarray(chunk.length);
+      await sleep((chunk.length / bytesPerSecond) * 1000);
+      controller.enqueue(chunk);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+function chance(rate: number | undefined) {
+  return !!rate && Math.random() < rate;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Resolves once the client closes the connection.
+ */
+function aborted(signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    if (signal.aborted) return resolve();
+    signal.addEventListener("abort", () => resolve(), { once: true });
+  });
+}
@@ -0,0 +1,299 @@
+import { parseForeignKey } from "./fields";
+import type { FieldType, MockliteConfig, TableSchema } from "./types";
+
+type JsonSchema = Record<string, any>;
+
+/**
+ * Faker generators for OpenAPI string formats.
+ */
+const FORMAT_GENERATORS: Record<string, string> = {
+  email: "faker.internet.email",
+  uuid: "faker.string.uuid",
+  "date-time": "faker.date.recent",
+  date: "faker.date.past",
+  uri: "faker.internet.url",
+  url: "faker.internet.url",
+  ipv4: "faker.internet.ipv4",
+  ipv6: "faker.internet.ipv6",
+  hostname: "faker.internet.domainName",
+};
+
+/**
+ * Faker generators for common string property names, used when there is no format.
+ */
+const NAME_GENERATORS: Record<string, string> = {
+  name: "faker.person.fullName",
+  fullname: "faker.person.fullName",
+  firstname: "faker.person.firstName",
+  lastname: "faker.person.lastName",
+  username: "faker.internet.username",
+  email: "faker.internet.email",
+  phone: "faker.phone.number",
+  title: "faker.lorem.sentence",
+  description: "faker.lorem.paragraph",
+  content: "faker.lorem.paragraphs",
+  body: "faker.lorem.paragraphs",
+  avatar: "faker.image.avatar",
+  image: "faker.image.url",
+  url: "faker.internet.url",
+  city: "faker.location.city",
+  country: "faker.location.country",
+  address: "faker.location.streetAddress",
+  company: "faker.company.name",
+};
+
+const REFERENCE_DESCRIPTION = /^References (\w+)\.(\w+)$/;
+
+/**
+ * The result of converting an OpenAPI document into a Mocklite config.
+ */
+export interface OpenApiImport {
+  config: MockliteConfig;
+  /** Parts of the document that could not be mapped. */
+  warnings: string[];
+}
+
+/**
+ * Converts the component schemas of an OpenAPI (or Swagger 2) document into a Mocklite config.
+ * Object schemas with an `id` property, or referenced by another table, become tables.
+ * `$ref` properties and `*Id` fields that name a table become FKs, `enum` becomes
+ * an enum field, and formats and common property names pick a Faker generator.
+ *
+ * @param spec - The parsed OpenAPI document.
+ * @returns The generated config and any warnings.
+ * @throws {Error} If the document has no component schemas.
+ */
+export function configFromOpenApi(spec: unknown): OpenApiImport {
+  const doc = (spec ?? {}) as JsonSchema;
+  const components: Record<string, JsonSchema> | undefined =
+    doc.components?.schemas ?? doc.definitions;
+
+  if (!components || typeof components !== "object") {
+    throw new Error("The document has no component schemas");
+  }
+
+  const warnings: string[] = [];
+  const resolve = (schema: JsonSchema | undefined) => {
+    if (schema?.$ref) return components[refName(schema.$ref)];
+    return schema;
+  };
+
+  // A schema is a table if it looks like a record (has an id) or another record points at it
+  const isObject = (schema?: JsonSchema) =>
+    !!schema && (schema.type === "object" || !!schema.properties);
+  const referenced = new Set<string>();
+  for (const schema of Object.values(components)) {
+    for (const property of Object.values(propertiesOf(schema, resolve))) {
+      const target = refOf(property);
+      if (target && isObject(components[target]) && !property.readOnly) {
+        referenced.add(target);
+      }
+    }
+  }
+
+  const tableNames = new Map<string, string>();
+  for (const [name, schema] of Object.entries(components)) {
+    if (!isObject(schema)) continue;
+    if (!propertiesOf(schema, resolve).id && !referenced.has(name)) {
+      warnings.push(`Skipped schema "${name}" (no id property)`);
+      continue;
+    }
+    tableNames.set(name, tableName(name));
+  }
+
+  const tables = new Set(tableNames.values());
+  const schema: TableSchema[] = [];
+
+  for (const [name, table] of tableNames) {
+    const properties = propertiesOf(components[name]!, resolve);
+    const required: string[] = components[name]!.required ?? [];
+    const fields: Record<string, FieldType> = { id: "pk" };
+
+    for (const [property, raw] of Object.entries(properties)) {
+      if (property === "id") continue;
+
+      const target = refOf(raw);
+      if (target && tableNames.has(target)) {
+        // Relation properties in responses (e.g., embedded rows) are not columns
+        if (raw.readOnly) continue;
+        const field = `${property}Id`;
+        if (properties[field] === undefined) {
+          fields[field] = `fk:${tableNames.get(target)}.id`;
+        }
+        continue;
+      }
+
+      const prop = resolve(unwrapNullable(raw)) ?? {};
+      if (prop.readOnly && prop.items && refOf(prop.items)) continue;
+
+      const fk = foreignKeyFor(property, prop, tables);
+      if (fk) {
+        fields[property] = fk;
+        continue;
+      }
+
+      const def = fieldFor(property, prop);
+      if (!def) {
+        warnings.push(
+          `Skipped ${name}.${property} (nested ${prop.type ?? "value"})`
+        );
+        continue;
+      }
+
+      fields[property] =
+        required.includes(property) && !prop.readOnly
+          ? {
+              ...(typeof def === "object" ? def : { type: def }),
+              nullable: false,
+            }
+          : def;
+    }
+
+    schema.push({ table, seed: 10, fields });
+  }
+
+  return {
+    config: {
+      port: 3000,
+      database: "sqlite",
+      schema: sortByDependencies(schema),
+    },
+    warnings,
+  };
+}
+
+/**
+ * Collects the properties of an object schema, following `allOf` compositions.
+ */
+function propertiesOf(
+  schema: JsonSchema,
+  resolve: (schema?: JsonSchema) => JsonSchema | undefined
+): Record<string, JsonSchema> {
+  const properties: Record<string, JsonSchema> = {};
+  for (const part of schema.allOf ?? []) {
+    Object.assign(properties, propertiesOf(resolve(part) ?? {}, resolve));
+  }
+  return Object.assign(properties, schema.properties ?? {});
+}
+
+/**
+ * Returns the component name a property points at, through `allOf`/`oneOf`/`anyOf` wrappers.
+ */
+function refOf(property: JsonSchema): string | null {
+  const schema = unwrapNullable(property);
+  if (schema.$ref) return refName(schema.$ref);
+  const single = schema.allOf?.length === 1 ? schema.allOf[0] : null;
+  return single?.$ref ? refName(single.$ref) : null;
+}
+
+/**
+ * Strips the `null` alternative from `oneOf`/`anyOf` nullable wrappers.
+ */
+function unwrapNullable(property: JsonSchema): JsonSchema {
+  const variants: JsonSchema[] | undefined = property.oneOf ?? property.anyOf;
+  if (!variants) return property;
+  const nonNull = variants.filter((v) => v.type !== "null");
+  return nonNull.length === 1 ? { ...property, ...nonNull[0] } : property;
+}
+
+const refName = (ref: string) => ref.split("/").pop()!;
+
+/**
+ * Returns the non-null JSON Schema type (OpenAPI 3.1 allows `["string", "null"]`).
+ */
+function typeOf(schema: JsonSchema): string | undefined {
+  if (!Array.isArray(schema.type)) return schema.type;
+  return schema.type.find((t: string) => t !== "null");
+}
+
+/**
+ * Maps an `*Id` property to an FK when a table with a matching name exists.
+ */
+function foreignKeyFor(
+  property: string,
+  schema: JsonSchema,
+  tables: Set<string>
+): string | null {
+  const described = REFERENCE_DESCRIPTION.exec(schema.description ?? "");
+  if (described && tables.has(described[1]!)) {
+    return `fk:${described[1]}.${described[2]}`;
+  }
+
+  const match = property.match(/^(.+?)(?:Id|_id)$/);
+  if (!match) return null;
+
+  const table = tableName(match[1]!);
+  return tables.has(table) ? `fk:${table}.id` : null;
+}
+
+/**
+ * Picks a field definition for a scalar property.
+ *
+ * @returns The field definition, or null for nested objects and arrays.
+ */
+function fieldFor(property: string, schema: JsonSchema): FieldType | null {
+  if (Array.isArray(schema.enum)) {
+    const values = schema.enum.filter(
+      (v: unknown) => typeof v === "string" || typeof v === "number"
+    );
+    if (values.length > 0) return { type: "enum", values };
+  }
+
+  switch (typeOf(schema)) {
+    case "integer":
+      return "faker.number.int";
+    case "number":
+      return "faker.number.float";
+    case "boolean":
+      return "faker.datatype.boolean";
+    case "object":
+    case "array":
+      return null;
+    default: {
+      const byFormat = FORMAT_GENERATORS[schema.format];
+      if (byFormat) return byFormat;
+      return (
+        NAME_GENERATORS[property.toLowerCase().replace(/_/g, "")] ??
+        "faker.lorem.words"
+      );
+    }
+  }
+}
+
+/**
+ * Turns a schema name into a plural camelCase table name (e.g., "BlogPost" -> "blogPosts").
+ */
+function tableName(name: string) {
+  const camel = name
+    .replace(/[^A-Za-z0-9_]/g, "")
+    .replace(/^[A-Z]+/, (m) => m.toLowerCase());
+
+  if (/[^aeiou]y$/.test(camel)) return camel.slice(0, -1) + "ies";
+  if (/(s|x|z|ch|sh)$/.test(camel)) return camel + "es";
+  return camel + "s";
+}
+
+/**
+ * Orders tables so that FK targets come before the tables referencing them.
+ * Tables in a reference cycle keep their original relative order.
+ */
+function sortByDependencies(schema: TableSchema[]) {
+  const byName = new Map(schema.map((t) => [t.table, t]));
+  const sorted: TableSchema[] = [];
+  const visiting = new Set<string>();
+
+  const visit = (table: TableSchema) => {
+    if (sorted.includes(table) || visiting.has(table.table)) return;
+    visiting.add(table.table);
+
+    for (const def of Object.values(table.fields)) {
+      const fk = parseForeignKey(def);
+      const target = fk && byName.get(fk.table);
+      if (target) visit(target);
+    }
+    sorted.push(table);
+  };
+
+  schema.forEach(visit);
+  return sorted;
+}
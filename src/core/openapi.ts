@@ -0,0 +1,548 @@
+import { parseForeignKey, resolveSqlType } from "./fields";
+import { typeName } from "./naming";
+import { resolvePagination } from "./pagination";
+import { isRequiredField } from "./payload";
+import { getRelations, type Relation } from "./relations";
+import type { FieldType, MockliteConfig, SqlType, TableSchema } from "./types";
+
+type JsonSchema = Record<string, unknown>;
+
+const JSON_SCHEMA_TYPES: Record<SqlType, JsonSchema> = {
+  integer: { type: "integer" },
+  real: { type: "number" },
+  text: { type: "string" },
+  boolean: { type: "boolean" },
+  json: {},
+  datetime: { type: "string", format: "date-time" },
+};
+
+/**
+ * String formats implied by common Faker generators.
+ */
+const FAKER_FORMATS: Record<string, string> = {
+  "faker.internet.email": "email",
+  "faker.internet.exampleEmail": "email",
+  "faker.internet.url": "uri",
+  "faker.image.url": "uri",
+  "faker.image.avatar": "uri",
+  "faker.string.uuid": "uuid",
+  "faker.internet.ipv4": "ipv4",
+  "faker.internet.ipv6": "ipv6",
+};
+
+const COMPARABLE_TYPES: SqlType[] = ["integer", "real", "datetime"];
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const ref400 = { $ref: "#/components/responses/BadRequest" };
+const ref404 = { $ref: "#/components/responses/NotFound" };
+const ref409 = { $ref: "#/components/responses/Conflict" };
+const ref422 = { $ref: "#/components/responses/ValidationFailed" };
+
+/**
+ * Generates an OpenAPI 3.1 document describing every route the mock server serves.
+ *
+ * @param config - The Mocklite configuration object.
+ * @param serverUrl - The base URL of the server, listed under `servers`.
+ * @returns The OpenAPI document.
+ */
+export function generateOpenApi(config: MockliteConfig, serverUrl?: string) {
+  const schemas: Record<string, JsonSchema> = {
+    Error: {
+      type: "object",
+      properties: { error: { type: "string" } },
+      required: ["error"],
+    },
+    ValidationError: {
+      type: "object",
+      properties: {
+        error: { type: "string" },
+        errors: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              field: { type: "string" },
+              message: { type: "string" },
+            },
+            required: ["field", "message"],
+          },
+        },
+      },
+      required: ["error", "errors"],
+    },
+    JsonPatch: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          op: {
+            type: "string",
+            enum: ["add", "remove", "replace", "move", "copy", "test"],
+          },
+          path: { type: "string" },
+          from: { type: "string" },
+          value: {},
+        },
+        required: ["op", "path"],
+      },
+    },
+    OffsetMeta: {
+      type: "object",
+      properties: {
+        total: { type: "integer" },
+        page: { type: "integer" },
+        limit: { type: "integer" },
+        totalPages: { type: "integer" },
+      },
+    },
+    CursorMeta: {
+      type: "object",
+      properties: {
+        total: { type: "integer" },
+        limit: { type: "integer" },
+        hasNextPage: { type: "boolean" },
+        endCursor: { type: ["string", "null"] },
+      },
+    },
+  };
+
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const table of config.schema) {
+    const name = typeName(table.table);
+    const relations = getRelations(config, table.table);
+
+    schemas[name] = rowSchema(table, relations);
+    schemas[`${name}Input`] = inputSchema(table, true);
+    schemas[`${name}Patch`] = inputSchema(table, false);
+
+    const tag = table.table;
+    const idParam = {
+      name: "id",
+      in: "path",
+      required: true,
+      schema: { type: "integer" },
+    };
+    const includeParam = {
+      name: "include",
+      in: "query",
+      description:
+        "Comma-separated relations to embed; use dots for nested relations." +
+        (relations.length > 0
+          ? ` Relations: ${relations.map((r) => r.name).join(", ")}.`
+          : ""),
+      schema: { type: "string" },
+    };
+    const fieldsParam = {
+      name: "fields",
+      in: "query",
+      description:
+        "Comma-separated columns to return; prefix with a relation name for included rows.",
+      schema: { type: "string" },
+    };
+
+    paths[`/${table.table}`] = {
+      get: {
+        tags: [tag],
+        summary: `List ${table.table}`,
+        operationId: `list${name}`,
+        parameters: [
+          ...listParameters(config, table),
+          includeParam,
+          fieldsParam,
+        ],
+        responses: {
+          "200": listResponse(config, table, name),
+          "400": ref400,
+        },
+      },
+      post: {
+        tags: [tag],
+        summary: `Create a ${name}`,
+        operationId: `create${name}`,
+        requestBody: jsonBody(`${name}Input`),
+        responses: {
+          "201": rowResponse(name, "The created row"),
+          "400": ref400,
+          "422": ref422,
+        },
+      },
+    };
+
+    paths[`/${table.table}/{id}`] = {
+      parameters: [idParam],
+      get: {
+        tags: [tag],
+        summary: `Get a ${name}`,
+        operationId: `get${name}`,
+        parameters: [includeParam, fieldsParam],
+        responses: {
+          "200": rowResponse(name, "The row"),
+          "400": ref400,
+          "404": ref404,
+        },
+      },
+      put: {
+        tags: [tag],
+        summary: `Replace a ${name}`,
+        description: "Omitted fields are reset to their default (or null).",
+        operationId: `replace${name}`,
+        requestBody: jsonBody(`${name}Input`),
+        responses: {
+          "200": rowResponse(name, "The updated row"),
+          "400": ref400,
+          "404": ref404,
+          "422": ref422,
+        },
+      },
+      patch: {
+        tags: [tag],
+        summary: `Update a ${name}`,
+        description:
+          "Accepts a JSON Merge Patch (RFC 7386) or a JSON Patch (RFC 6902).",
+        operationId: `update${name}`,
+        requestBody: {
+          required: true,
+          content: {
+            "application/merge-patch+json": { schema: ref(`${name}Patch`) },
+            "application/json": { schema: ref(`${name}Patch`) },
+            "application/json-patch+json": { schema: ref("JsonPatch") },
+          },
+        },
+        responses: {
+          "200": rowResponse(name, "The updated row"),
+          "400": ref400,
+          "404": ref404,
+          "409": ref409,
+          "422": ref422,
+        },
+      },
+      delete: {
+        tags: [tag],
+        summary: `Delete a ${name}`,
+        operationId: `delete${name}`,
+        responses: {
+          "200": {
+            description: "The row was deleted",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: { message: { type: "string" } },
+                },
+              },
+            },
+          },
+          "404": ref404,
+          "409": ref409,
+        },
+      },
+    };
+
+    const declared = (table.relations ?? []).map((r) => r.name);
+    for (const relation of relations) {
+      if (!declared.includes(relation.name)) continue;
+      Object.assign(paths, nestedPaths(config, table, relation, idParam));
+    }
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "MockLite API",
+      version: "1.0.0",
+      description: "Generated from the mocklite config.",
+    },
+    ...(serverUrl ? { servers: [{ url: serverUrl }] } : {}),
+    tags: config.schema.map((t) => ({ name: t.table })),
+    paths,
+    components: {
+      schemas,
+      responses: {
+        BadRequest: errorResponse("Invalid request or query parameters"),
+        NotFound: errorResponse("The row does not exist"),
+        Conflict: errorResponse(
+          "The patch cannot be applied, or the row is still referenced"
+        ),
+        ValidationFailed: {
+          description: "The body does not match the table schema",
+          content: {
+            "application/json": { schema: ref("ValidationError") },
+          },
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Builds the JSON Schema of a single field.
+ *
+ * @param def - The field definition.
+ * @returns The JSON Schema.
+ */
+export function fieldSchema(def: FieldType): JsonSchema {
+  const sqlType = resolveSqlType(def);
+  const schema: JsonSchema = { ...JSON_SCHEMA_TYPES[sqlType] };
+
+  if (def === "pk") {
+    schema.readOnly = true;
+    return schema;
+  }
+
+  const fk = parseForeignKey(def);
+  if (fk) {
+    schema.description = `References ${fk.table}.${fk.column}`;
+  }
+
+  const path = typeof def === "object" ? def.type : def;
+  if (typeof path === "string" && FAKER_FORMATS[path] && sqlType === "text") {
+    schema.format = FAKER_FORMATS[path];
+  }
+
+  if (typeof def === "object") {
+    if (def.type === "enum" && def.values) schema.enum = def.values;
+    if (def.default !== undefined) schema.default = def.default;
+  }
+
+  // Columns are nullable unless declared otherwise
+  const nullable = typeof def !== "object" || def.nullable !== false;
+  if (nullable && typeof schema.type === "string") {
+    schema.type = [schema.type, "null"];
+    if (Array.isArray(schema.enum)) schema.enum = [...schema.enum, null];
+  }
+
+  return schema;
+}
+
+function rowSchema(table: TableSchema, relations: Relation[]): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [field, def] of Object.entries(table.fields)) {
+    properties[field] = fieldSchema(def);
+    required.push(field);
+  }
+
+  // Relation properties are only present when requested with ?include=
+  for (const relation of relations) {
+    if (properties[relation.name]) continue;
+    const target = ref(typeName(relation.table));
+    const toOne = relation.kind === "belongsTo" || relation.kind === "hasOne";
+    properties[relation.name] = {
+      ...(toOne
+        ? { oneOf: [target, { type: "null" }] }
+        : { type: "array", items: target }),
+      description: `Included with ?include=${relation.name}`,
+      readOnly: true,
+    };
+  }
+
+  return { type: "object", properties, required };
+}
+
+function inputSchema(table: TableSchema, withRequired: boolean): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [field, def] of Object.entries(table.fields)) {
+    if (def === "pk") continue;
+    properties[field] = fieldSchema(def);
+    if (withRequired && isRequiredField(def)) required.push(field);
+  }
+
+  return {
+    type: "object",
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Builds the query parameters of a list route: pagination, sorting, search and filters.
+ */
+function listParameters(config: MockliteConfig, table: TableSchema) {
+  const options = resolvePagination(config, table);
+  const query = (name: string, description: string, schema: JsonSchema) => ({
+    name,
+    in: "query",
+    description,
+    schema,
+  });
+
+  const params = [
+    query("page", "Page number (offset pagination)", {
+      type: "integer",
+      minimum: 1,
+    }),
+    query("limit", "Page size", {
+      type: "integer",
+      minimum: 1,
+      maximum: options.maxLimit,
+      default: options.defaultLimit,
+    }),
+    query("first", "Page size (cursor pagination)", {
+      type: "integer",
+      minimum: 1,
+      maximum: options.maxLimit,
+    }),
+    query("after", "Cursor from the previous page's endCursor", {
+      type: "string",
+    }),
+    query(
+      "sort",
+      "Comma-separated fields; prefix with - for descending (e.g., -createdAt,name)",
+      { type: "string" }
+    ),
+    query("q", "Search across all text columns", { type: "string" }),
+  ];
+
+  for (const [field, def] of Object.entries(table.fields)) {
+    const sqlType = resolveSqlType(def);
+    const value = { ...JSON_SCHEMA_TYPES[sqlType] };
+    const list = { type: "string", description: "Comma-separated values" };
+    const isText = sqlType === "text";
+
+    params.push(
+      query(
+        field,
+        isText ? "Partial match" : "Equals",
+        isText || sqlType === "json" ? { type: "string" } : value
+      ),
+      query(`${field}_ne`, "Not equal", value),
+      query(`${field}_in`, "In list", list),
+      query(`${field}_nin`, "Not in list", list),
+      query(`${field}_null`, "Is null (true) or not null (false)", {
+        type: "boolean",
+      })
+    );
+
+    if (isText) {
+      params.push(
+        query(`${field}_eq`, "Exact match", value),
+        query(`${field}_like`, "SQL LIKE pattern; * is a wildcard", value)
+      );
+    }
+
+    if (COMPARABLE_TYPES.includes(sqlType)) {
+      params.push(
+        query(`${field}_gt`, "Greater than", value),
+        query(`${field}_gte`, "Greater than or equal", value),
+        query(`${field}_lt`, "Less than", value),
+        query(`${field}_lte`, "Less than or equal", value)
+      );
+    }
+  }
+
+  return params;
+}
+
+function listResponse(
+  config: MockliteConfig,
+  table: TableSchema,
+  name: string
+) {
+  const options = resolvePagination(config, table);
+  const items = { type: "array", items: ref(name) };
+
+  const headers: Record<string, unknown> = {};
+  if (options.totalHeader) {
+    headers["X-Total-Count"] = {
+      description: "Total number of matching rows",
+      schema: { type: "integer" },
+    };
+  }
+  if (options.linkHeader) {
+    headers.Link = {
+      description: "RFC 8288 pagination links",
+      schema: { type: "string" },
+    };
+  }
+
+  const schema =
+    options.envelope === "array"
+      ? items
+      : {
+          type: "object",
+          properties: {
+            data: items,
+            meta: { oneOf: [ref("OffsetMeta"), ref("CursorMeta")] },
+          },
+          required: ["data", "meta"],
+        };
+
+  return {
+    description: `A page of ${table.table}`,
+    ...(Object.keys(headers).length > 0 ? { headers } : {}),
+    content: { "application/json": { schema } },
+  };
+}
+
+function nestedPaths(
+  config: MockliteConfig,
+  table: TableSchema,
+  relation: Relation,
+  idParam: JsonSchema
+) {
+  const parent = typeName(table.table);
+  const name = typeName(relation.table);
+  const related = config.schema.find((t) => t.table === relation.table)!;
+  const operation = relation.name[0]!.toUpperCase() + relation.name.slice(1);
+  const toOne = relation.kind === "belongsTo" || relation.kind === "hasOne";
+
+  const path: Record<string, unknown> = {
+    parameters: [idParam],
+    get: {
+      tags: [table.table],
+      summary: `Get the ${relation.name} of a ${parent}`,
+      operationId: `get${parent}${operation}`,
+      ...(toOne ? {} : { parameters: listParameters(config, related) }),
+      responses: {
+        "200": toOne
+          ? rowResponse(name, "The related row")
+          : listResponse(config, related, name),
+        "404": ref404,
+      },
+    },
+  };
+
+  if (relation.kind !== "belongsTo") {
+    path.post = {
+      tags: [table.table],
+      summary: `Create a ${name} linked to a ${parent}`,
+      operationId: `create${parent}${operation}`,
+      requestBody: jsonBody(`${name}Input`),
+      responses: {
+        "201": rowResponse(name, "The created row"),
+        "400": ref400,
+        "404": ref404,
+        "422": ref422,
+      },
+    };
+  }
+
+  return { [`/${table.table}/{id}/${relation.name}`]: path };
+}
+
+function jsonBody(schema: string) {
+  return {
+    required: true,
+    content: { "application/json": { schema: ref(schema) } },
+  };
+}
+
+function rowResponse(name: string, description: string) {
+  return {
+    description,
+    content: { "application/json": { schema: ref(name) } },
+  };
+}
+
+function errorResponse(description: string) {
+  return {
+    description,
+    content: { "application/json": { schema: ref("Error") } },
+  };
+}
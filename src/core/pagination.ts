@@ -0,0 +1,213 @@
+import type { SelectQueryBuilder } from "kysely";
+import { QueryError, type SortKey } from "./query";
+import type { MockliteConfig, PaginationOptions, TableSchema } from "./types";
+
+type AnySelectQuery = SelectQueryBuilder<any, any, any>;
+
+const DEFAULTS: Required<PaginationOptions> = {
+  style: "offset",
+  envelope: "envelope",
+  totalHeader: false,
+  linkHeader: false,
+  defaultLimit: 10,
+  maxLimit: 100,
+};
+
+/**
+ * Prefix for the hidden columns selected to build cursors; stripped before responding.
+ */
+export const CURSOR_COLUMN_PREFIX = "__cursor_";
+
+/**
+ * Resolves the pagination options for a table: table options over global options over defaults.
+ *
+ * @param config - The Mocklite configuration object.
+ * @param table - The table definition.
+ * @returns The complete pagination options.
+ */
+export function resolvePagination(
+  config: MockliteConfig,
+  table: TableSchema
+): Required<PaginationOptions> {
+  return { ...DEFAULTS, ...config.pagination, ...table.pagination };
+}
+
+/**
+ * Parses a requested page size, falling back to the default and capping it at `maxLimit`.
+ *
+ * @param raw - The raw `limit` or `first` parameter.
+ * @param options - The resolved pagination options.
+ * @returns The page size to use.
+ */
+export function parseLimit(
+  raw: string | undefined,
+  options: Required<PaginationOptions>
+) {
+  const limit = Math.floor(Number(raw)) || options.defaultLimit;
+  return Math.min(Math.max(limit, 1), options.maxLimit);
+}
+
+/**
+ * Returns the keys that define cursor order: the requested sort plus the
+ * primary key as a tie-breaker, so every row has a unique position.
+ *
+ * @param sort - The requested sort keys.
+ * @returns The cursor keys.
+ */
+export function cursorKeys(sort: SortKey[]): SortKey[] {
+  return sort.some((key) => key.field === "id")
+    ? sort
+    : [...sort, { field: "id", direction: "asc" }];
+}
+
+/**
+ * Encodes the position of a row as an opaque cursor.
+ * The cursor records the sort it was made for, so it cannot be reused with a different order.
+ *
+ * @param keys - The cursor keys.
+ * @param row - The row, including the hidden cursor columns.
+ * @returns The base64url-encoded cursor.
+ */
+export function encodeCursor(keys: SortKey[], row: Record<string, unknown>) {
+  const values = keys.map((_, i) => row[`${CURSOR_COLUMN_PREFIX}${i}`]);
+  const payload = { s: sortSignature(keys), v: values };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+/**
+ * Decodes a cursor created by `encodeCursor`.
+ *
+ * @param keys - The cursor keys of the current request.
+ * @param cursor - The opaque cursor from `?after=`.
+ * @returns The key values of the row the cursor points at.
+ * @throws {QueryError} If the cursor is malformed or was made for a different sort.
+ */
+export function decodeCursor(keys: SortKey[], cursor: string): unknown[] {
+  let payload: { s?: unknown; v?: unknown };
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new QueryError("Invalid cursor");
+  }
+
+  if (
+    payload?.s !== sortSignature(keys) ||
+    !Array.isArray(payload.v) ||
+    payload.v.length !== keys.length
+  ) {
+    throw new QueryError("Cursor does not match the current sort order");
+  }
+  return payload.v;
+}
+
+function sortSignature(keys: SortKey[]) {
+  return keys
+    .map((key) => (key.direction === "desc" ? "-" : "") + key.field)
+    .join(",");
+}
+
+/**
+ * Selects the cursor key columns under hidden aliases.
+ *
+ * @param query - The data query.
+ * @param tableName - The queried table.
+ * @param keys - The cursor keys.
+ * @returns The query with the hidden columns added.
+ */
+export function selectCursorColumns<QB extends AnySelectQuery>(
+  query: QB,
+  tableName: string,
+  keys: SortKey[]
+): QB {
+  return query.select(
+    keys.map(
+      (key, i) => `${tableName}.${key.field} as ${CURSOR_COLUMN_PREFIX}${i}`
+    )
+  ) as QB;
+}
+
+/**
+ * Restricts a query to rows that come after the cursor position (keyset pagination).
+ * Because the condition compares key values rather than counting rows,
+ * pages stay stable when rows are inserted or deleted in between requests.
+ *
+ * @param query - The query to restrict.
+ * @param tableName - The queried table.
+ * @param keys - The cursor keys.
+ * @param values - The decoded cursor values.
+ * @returns The restricted query.
+ */
+export function applyCursor<QB extends AnySelectQuery>(
+  query: QB,
+  tableName: string,
+  keys: SortKey[],
+  values: unknown[]
+): QB {
+  return query.where((eb) => {
+    const branches = [];
+
+    // (k0 after v0) OR (k0 = v0 AND k1 after v1) OR ...
+    for (let i = 0; i < keys.length; i++) {
+      const { field, direction } = keys[i]!;
+      const ref = `${tableName}.${field}`;
+      const value = values[i] as any;
+
+      // SQLite sorts NULLs first, so ascending order ends with non-null values
+      // and descending order ends with NULLs
+      let after;
+      if (direction === "asc") {
+        after = value === null ? eb(ref, "is not", null) : eb(ref, ">", value);
+      } else {
+        if (value === null) continue;
+        after = eb.or([eb(ref, "<", value), eb(ref, "is", null)]);
+      }
+
+      const equalities = keys
+        .slice(0, i)
+        .map((key, j) =>
+          eb(`${tableName}.${key.field}`, "is", values[j] as any)
+        );
+
+      branches.push(eb.and([...equalities, after]));
+    }
+
+    return eb.or(branches);
+  }) as QB;
+}
+
+/**
+ * Removes the hidden cursor columns from a row.
+ *
+ * @param row - A row returned by the data query.
+ * @returns The row without cursor columns.
+ */
+export function stripCursorColumns(row: Record<string, unknown>) {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (!key.startsWith(CURSOR_COLUMN_PREFIX)) result[key] = value;
+  }
+  return result;
+}
+
+/**
+ * Builds an RFC 8288 `Link` header value.
+ *
+ * @param url - The current request URL.
+ * @param links - Query parameters to set for each relation type (e.g., `{ next: { page: "3" } }`).
+ * @returns The header value.
+ */
+export function buildLinkHeader(
+  url: string,
+  links: Record<string, Record<string, string | null>>
+) {
+  return Object.entries(links)
+    .map(([rel, params]) => {
+      const target = new URL(url);
+      for (const [key, value] of Object.entries(params)) {
+        if (value === null) target.searchParams.delete(key);
+        else target.searchParams.set(key, value);
+      }
+      return `<${target.toString()}>; rel="${rel}"`;
+    })
+    .join(", ");
+}
@@ -0,0 +1,251 @@
+/**
+ * Thrown when a patch document is malformed (400) or cannot be applied to the current state (409).
+ */
+export class PatchError extends Error {
+  constructor(message: string, public readonly status: 400 | 409) {
+    super(message);
+    this.name = "PatchError";
+  }
+}
+
+/**
+ * A single RFC 6902 JSON Patch operation.
+ */
+export interface JsonPatchOperation {
+  op: "add" | "remove" | "replace" | "move" | "copy" | "test";
+  path: string;
+  from?: string;
+  value?: unknown;
+}
+
+const OPERATIONS = ["add", "remove", "replace", "move", "copy", "test"];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Applies an RFC 7386 JSON Merge Patch.
+ * Keys set to null are removed; nested objects are merged recursively.
+ *
+ * @param target - The current document.
+ * @param patch - The merge patch.
+ * @returns The patched document (the target is not modified).
+ * @throws {PatchError} If the patch is not a JSON object.
+ */
+export function applyMergePatch(
+  target: Record<string, unknown>,
+  patch: unknown
+): Record<string, unknown> {
+  if (!isPlainObject(patch)) {
+    throw new PatchError("Merge patch must be a JSON object", 400);
+  }
+  return mergeValue(target, patch) as Record<string, unknown>;
+}
+
+function mergeValue(target: unknown, patch: unknown): unknown {
+  if (!isPlainObject(patch)) return patch;
+
+  const result: Record<string, unknown> = isPlainObject(target)
+    ? { ...target }
+    : {};
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = mergeValue(result[key], value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Applies an RFC 6902 JSON Patch.
+ * Operations are applied in order to a copy of the document; if any fails, nothing is applied.
+ *
+ * @param doc - The current document.
+ * @param operations - The patch document (an array of operations).
+ * @returns The patched document.
+ * @throws {PatchError} 400 for malformed operations, 409 for paths that do not exist or failed tests.
+ */
+export function applyJsonPatch(
+  doc: Record<string, unknown>,
+  operations: unknown
+): Record<string, unknown> {
+  if (!Array.isArray(operations)) {
+    throw new PatchError("JSON Patch must be an array of operations", 400);
+  }
+
+  let result: unknown = structuredClone(doc);
+
+  operations.forEach((operation, index) => {
+    const op = parseOperation(operation, index);
+
+    switch (op.op) {
+      case "add":
+        result = addValue(result, parsePointer(op.path), op.value);
+        break;
+      case "remove":
+        result = removeValue(result, parsePointer(op.path));
+        break;
+      case "replace": {
+        const tokens = parsePointer(op.path);
+        result = removeValue(result, tokens);
+        result = addValue(result, tokens, op.value);
+        break;
+      }
+      case "move": {
+        const from = parsePointer(op.from!);
+        const value = getValue(result, from);
+        result = removeValue(result, from);
+        result = addValue(result, parsePointer(op.path), value);
+        break;
+      }
+      case "copy": {
+        const value = getValue(result, parsePointer(op.from!));
+        result = addValue(
+          result,
+          parsePointer(op.path),
+          structuredClone(value)
+        );
+        break;
+      }
+      case "test": {
+        const actual = getValue(result, parsePointer(op.path));
+        if (!deepEqual(actual, op.value)) {
+          throw new PatchError(`Test failed at "${op.path}"`, 409);
+        }
+        break;
+      }
+    }
+  });
+
+  if (!isPlainObject(result)) {
+    throw new PatchError("Patch must leave the document a JSON object", 409);
+  }
+  return result;
+}
+
+/**
+ * Validates the shape of a single patch operation.
+ */
+function parseOperation(operation: unknown, index: number) {
+  if (!isPlainObject(operation)) {
+    throw new PatchError(`Operation ${index} must be an object`, 400);
+  }
+  if (typeof operation.op !== "string" || !OPERATIONS.includes(operation.op)) {
+    throw new PatchError(`Operation ${index} has an invalid "op"`, 400);
+  }
+  if (typeof operation.path !== "string") {
+    throw new PatchError(`Operation ${index} requires a "path"`, 400);
+  }
+  if (
+    (operation.op === "move" || operation.op === "copy") &&
+    typeof operation.from !== "string"
+  ) {
+    throw new PatchError(`Operation ${index} requires a "from"`, 400);
+  }
+  if (
+    (operation.op === "add" ||
+      operation.op === "replace" ||
+      operation.op === "test") &&
+    !("value" in operation)
+  ) {
+    throw new PatchError(`Operation ${index} requires a "value"`, 400);
+  }
+  return operation as unknown as JsonPatchOperation;
+}
+
+/**
+ * Splits an RFC 6901 JSON Pointer into unescaped reference tokens.
+ */
+function parsePointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) {
+    throw new PatchError(`Invalid JSON Pointer "${pointer}"`, 400);
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function getValue(doc: unknown, tokens: string[]): unknown {
+  let current = doc;
+  for (const token of tokens) {
+    current = childOf(current, token, tokens);
+  }
+  return current;
+}
+
+function childOf(container: unknown, token: string, tokens: string[]) {
+  if (Array.isArray(container)) {
+    const index = Number(token);
+    if (!/^\d+$/.test(token) || index >= container.length) {
+      throw missingPath(tokens);
+    }
+    return container[index];
+  }
+  if (isPlainObject(container) && Object.hasOwn(container, token)) {
+    return container[token];
+  }
+  throw missingPath(tokens);
+}
+
+function addValue(doc: unknown, tokens: string[], value: unknown): unknown {
+  if (tokens.length === 0) return value;
+
+  const parent = getValue(doc, tokens.slice(0, -1));
+  const token = tokens[tokens.length - 1]!;
+
+  if (Array.isArray(parent)) {
+    const index = token === "-" ? parent.length : Number(token);
+    if (token !== "-" && (!/^\d+$/.test(token) || index > parent.length)) {
+      throw missingPath(tokens);
+    }
+    parent.splice(index, 0, value);
+  } else if (isPlainObject(parent)) {
+    parent[token] = value;
+  } else {
+    throw missingPath(tokens);
+  }
+  return doc;
+}
+
+function removeValue(doc: unknown, tokens: string[]): unknown {
+  if (tokens.length === 0) {
+    throw new PatchError("Cannot remove the whole document", 409);
+  }
+
+  const parent = getValue(doc, tokens.slice(0, -1));
+  const token = tokens[tokens.length - 1]!;
+
+  // Throws if the target does not exist
+  childOf(parent, token, tokens);
+
+  if (Array.isArray(parent)) {
+    parent.splice(Number(token), 1);
+  } else if (isPlainObject(parent)) {
+    delete parent[token];
+  }
+  return doc;
+}
+
+function missingPath(tokens: string[]) {
+  return new PatchError(`Path "/${tokens.join("/")}" does not exist`, 409);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.hasOwn(b, key) && deepEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
@@ -0,0 +1,150 @@
+import { Kysely } from "kysely";
+import { parseForeignKey, resolveSqlType } from "./fields";
+import type { FieldType, SqlType, TableSchema } from "./types";
+
+/**
+ * A validation error for a single field of a request body.
+ */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Checks whether a field must be present when creating a row.
+ * A field is required when it is non-nullable and has no default value.
+ *
+ * @param def - The field definition.
+ * @returns True if the field is required.
+ */
+export function isRequiredField(def: FieldType) {
+  return (
+    typeof def === "object" &&
+    def.nullable === false &&
+    def.default === undefined
+  );
+}
+
+/**
+ * Validates a request body against a table's field definitions.
+ * Reports unknown fields, attempts to set the primary key, type mismatches,
+ * enum values outside the allowed list, missing required fields and dangling FK ids.
+ *
+ * @param db - The Kysely database instance, used to check FK targets.
+ * @param table - The table definition.
+ * @param body - The parsed request body.
+ * @param options - Set `partial` for updates where omitted fields are left untouched.
+ * @returns The list of field errors (empty if the body is valid).
+ */
+export async function validatePayload(
+  db: Kysely<any>,
+  table: TableSchema,
+  body: unknown,
+  options: { partial?: boolean } = {}
+): Promise<FieldError[]> {
+  if (!isPlainObject(body)) {
+    return [{ field: "$", message: "Body must be a JSON object" }];
+  }
+
+  const errors: FieldError[] = [];
+
+  for (const [field, value] of Object.entries(body)) {
+    const def = table.fields[field];
+
+    if (def === undefined) {
+      errors.push({ field, message: "Unknown field" });
+      continue;
+    }
+
+    if (def === "pk") {
+      errors.push({ field, message: "Cannot be set; it is generated" });
+      continue;
+    }
+
+    const message = checkValue(def, value);
+    if (message) {
+      errors.push({ field, message });
+      continue;
+    }
+
+    const fk = parseForeignKey(def);
+    if (fk && value !== null) {
+      const target = await db
+        .selectFrom(fk.table)
+        .select(fk.column)
+        .where(fk.column, "=", value)
+        .executeTakeFirst();
+
+      if (!target) {
+        errors.push({
+          field,
+          message: `References a missing ${fk.table}.${fk.column} (${value})`,
+        });
+      }
+    }
+  }
+
+  if (!options.partial) {
+    for (const [field, def] of Object.entries(table.fields)) {
+      if (body[field] === undefined && isRequiredField(def)) {
+        errors.push({ field, message: "Is required" });
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Checks a single value against its field definition.
+ *
+ * @param def - The field definition.
+ * @param value - The value from the request body.
+ * @returns An error message, or null if the value is acceptable.
+ */
+function checkValue(def: FieldType, value: unknown): string | null {
+  if (value === null) {
+    return typeof def === "object" && def.nullable === false
+      ? "Cannot be null"
+      : null;
+  }
+
+  if (typeof def === "object" && def.type === "enum" && def.values) {
+    return def.values.includes(value as string | number)
+      ? null
+      : `Must be one of: ${def.values.join(", ")}`;
+  }
+
+  return checkType(resolveSqlType(def), value);
+}
+
+/**
+ * Checks that a value matches a column type.
+ *
+ * @param sqlType - The column type.
+ * @param value - The (non-null) value.
+ * @returns An error message, or null if the value matches.
+ */
+function checkType(sqlType: SqlType, value: unknown): string | null {
+  switch (sqlType) {
+    case "integer":
+      return Number.isInteger(value) ? null : "Must be an integer";
+    case "real":
+      return typeof value === "number" && Number.isFinite(value)
+        ? null
+        : "Must be a number";
+    case "boolean":
+      return typeof value === "boolean" ? null : "Must be a boolean";
+    case "datetime":
+      return typeof value === "string" && !Number.isNaN(Date.parse(value))
+        ? null
+        : "Must be an ISO 8601 date-time string";
+    case "json":
+      return null;
+    default:
+      return typeof value === "string" ? null : "Must be a string";
+  }
+}
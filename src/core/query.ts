@@ -0,0 +1,438 @@
+import type {
+  Expression,
+  ExpressionBuilder,
+  SelectQueryBuilder,
+  SqlBool,
+} from "kysely";
+import { resolveSqlType, toStorageValue } from "./fields";
+import { findRelation, findTable, type Relation } from "./relations";
+import type { FieldType, MockliteConfig, TableSchema } from "./types";
+
+/**
+ * Thrown when list query parameters are invalid; surfaced as a 400 response.
+ */
+export class QueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueryError";
+  }
+}
+
+/**
+ * Operators that can be appended to a filter key (e.g., `age_gte=18`).
+ * "default" is used when no suffix is given: partial match for text, equality otherwise.
+ */
+export type FilterOperator =
+  | "default"
+  | "eq"
+  | "ne"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "in"
+  | "nin"
+  | "like"
+  | "null";
+
+const SUFFIX_OPERATORS: FilterOperator[] = [
+  "eq",
+  "ne",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "nin",
+  "like",
+  "null",
+];
+
+/**
+ * A parsed filter condition, possibly reached through a chain of relations.
+ */
+export interface Filter {
+  /** Relations to traverse from the queried table (e.g., `author` in `author.role`). */
+  via: Relation[];
+  /** The table owning the field (the last table in the relation chain). */
+  table: string;
+  field: string;
+  op: FilterOperator;
+  value: unknown;
+}
+
+/**
+ * A single sort key parsed from `?sort=` (a leading "-" means descending).
+ */
+export interface SortKey {
+  field: string;
+  direction: "asc" | "desc";
+}
+
+/**
+ * A sparse fieldset parsed from `?fields=`.
+ */
+export interface FieldSelection {
+  /** Columns of the queried table, or null to select all of them. */
+  fields: string[] | null;
+  /** Columns per included relation, keyed by include path (e.g., `comments.author` for `comments.author.name`). */
+  relations: Record<string, string[]>;
+}
+
+type AnySelectQuery = SelectQueryBuilder<any, any, any>;
+
+/**
+ * Parses list query parameters into filters.
+ * Supports operator suffixes (`_ne`, `_gt`, `_gte`, `_lt`, `_lte`, `_in`, `_nin`, `_like`, `_null`, `_eq`)
+ * and dotted relation paths (`author.role=admin`). Values are coerced to the column type.
+ * Plain keys that match no field are ignored; invalid values and unknown relation paths are rejected.
+ *
+ * @param config - The Mocklite configuration object.
+ * @param table - The queried table.
+ * @param params - Query parameters, without reserved keys such as `page` or `include`.
+ * @returns The parsed filters.
+ * @throws {QueryError} If a value or relation path is invalid.
+ */
+export function parseFilters(
+  config: MockliteConfig,
+  table: TableSchema,
+  params: Record<string, string>
+): Filter[] {
+  const filters: Filter[] = [];
+
+  for (const [key, raw] of Object.entries(params)) {
+    const segments = key.split(".");
+    const last = segments.pop()!;
+
+    const via: Relation[] = [];
+    let current = table;
+    for (const segment of segments) {
+      const relation = findRelation(config, current.table, segment);
+      const next = relation && findTable(config, relation.table);
+      if (!relation || !next) {
+        throw new QueryError(
+          `Unknown relation "${segment}" in filter "${key}" on ${current.table}`
+        );
+      }
+      via.push(relation);
+      current = next;
+    }
+
+    const target = splitOperator(current, last);
+    if (!target) {
+      if (via.length > 0) {
+        throw new QueryError(
+          `Unknown field "${last}" in filter "${key}" on ${current.table}`
+        );
+      }
+      continue;
+    }
+
+    const def = current.fields[target.field]!;
+    filters.push({
+      via,
+      table: current.table,
+      field: target.field,
+      op: target.op,
+      value: coerceFilterValue(key, def, target.op, raw),
+    });
+  }
+
+  return filters;
+}
+
+/**
+ * Splits a filter key into a field name and operator.
+ * An exact field name always wins, so fields containing underscores are not misread.
+ */
+function splitOperator(table: TableSchema, key: string) {
+  if (table.fields[key] !== undefined) {
+    return { field: key, op: "default" as FilterOperator };
+  }
+
+  const index = key.lastIndexOf("_");
+  if (index <= 0) return null;
+
+  const field = key.slice(0, index);
+  const op = key.slice(index + 1) as FilterOperator;
+  if (table.fields[field] === undefined || !SUFFIX_OPERATORS.includes(op)) {
+    return null;
+  }
+  return { field, op };
+}
+
+/**
+ * Coerces a raw query string value to the representation stored for the field.
+ *
+ * @throws {QueryError} If the value does not fit the column type.
+ */
+function coerceFilterValue(
+  key: string,
+  def: FieldType,
+  op: FilterOperator,
+  raw: string
+): unknown {
+  if (op === "null") {
+    if (raw !== "true" && raw !== "false") {
+      throw new QueryError(`Filter "${key}" expects true or false`);
+    }
+    return raw === "true";
+  }
+
+  if (op === "like") return raw.replace(/\*/g, "%");
+
+  if (op === "in" || op === "nin") {
+    return raw.split(",").map((item) => coerceScalar(key, def, item));
+  }
+
+  return coerceScalar(key, def, raw);
+}
+
+function coerceScalar(key: string, def: FieldType, raw: string): unknown {
+  const sqlType = resolveSqlType(def);
+
+  switch (sqlType) {
+    case "integer":
+    case "real": {
+      const value = Number(raw);
+      if (raw.trim() === "" || Number.isNaN(value)) {
+        throw new QueryError(`Filter "${key}" expects a number`);
+      }
+      return value;
+    }
+    case "boolean":
+      if (!["true", "false", "1", "0"].includes(raw)) {
+        throw new QueryError(`Filter "${key}" expects true or false`);
+      }
+      return toStorageValue("boolean", raw);
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Applies filters to a select query on the given table.
+ *
+ * @param query - The query to filter.
+ * @param config - The Mocklite configuration object.
+ * @param tableName - The queried table (used to qualify column references).
+ * @param filters - The parsed filters.
+ * @returns The filtered query.
+ */
+export function applyFilters<QB extends AnySelectQuery>(
+  query: QB,
+  config: MockliteConfig,
+  tableName: string,
+  filters: Filter[]
+): QB {
+  for (const filter of filters) {
+    query = query.where((eb) =>
+      buildCondition(eb, config, filter, tableName, filter.via, 0)
+    ) as QB;
+  }
+  return query;
+}
+
+/**
+ * Builds the condition for a filter. Relation hops become
+ * `localKey IN (SELECT foreignKey FROM related WHERE ...)` subqueries,
+ * with an extra hop through the join table for many-to-many relations.
+ */
+function buildCondition(
+  eb: ExpressionBuilder<any, any>,
+  config: MockliteConfig,
+  filter: Filter,
+  alias: string,
+  via: Relation[],
+  depth: number
+): Expression<SqlBool> {
+  const [relation, ...rest] = via;
+
+  if (!relation) {
+    const table = findTable(config, filter.table)!;
+    return compare(eb, `${alias}.${filter.field}`, filter, table);
+  }
+
+  // Alias each hop so self-referencing relations do not shadow the outer table
+  const sub = `r${depth}`;
+  const related = eb
+    .selectFrom(`${relation.table} as ${sub}`)
+    .select(`${sub}.${relation.foreignKey}`)
+    .where((inner) =>
+      buildCondition(inner, config, filter, sub, rest, depth + 1)
+    );
+
+  if (relation.through) {
+    const { through } = relation;
+    const join = `${sub}_t`;
+    return eb(
+      `${alias}.${relation.localKey}`,
+      "in",
+      eb
+        .selectFrom(`${through.table} as ${join}`)
+        .select(`${join}.${through.sourceKey}`)
+        .where(`${join}.${through.targetKey}`, "in", related)
+    );
+  }
+
+  return eb(`${alias}.${relation.localKey}`, "in", related);
+}
+
+function compare(
+  eb: ExpressionBuilder<any, any>,
+  ref: string,
+  filter: Filter,
+  table: TableSchema
+): Expression<SqlBool> {
+  const value = filter.value as any;
+
+  switch (filter.op) {
+    case "default": {
+      const def = table.fields[filter.field]!;
+      const isEnum = typeof def === "object" && def.type === "enum";
+      return resolveSqlType(def) === "text" && !isEnum
+        ? eb(ref, "like", `%${value}%`)
+        : eb(ref, "=", value);
+    }
+    case "eq":
+      return eb(ref, "=", value);
+    case "ne":
+      // Null-safe inequality, so rows with NULL are included
+      return eb(ref, "is not", value);
+    case "gt":
+      return eb(ref, ">", value);
+    case "gte":
+      return eb(ref, ">=", value);
+    case "lt":
+      return eb(ref, "<", value);
+    case "lte":
+      return eb(ref, "<=", value);
+    case "in":
+      return eb(ref, "in", value);
+    case "nin":
+      return eb(ref, "not in", value);
+    case "like":
+      return eb(ref, "like", value);
+    case "null":
+      return value ? eb(ref, "is", null) : eb(ref, "is not", null);
+  }
+}
+
+/**
+ * Parses a comma-separated sort parameter (e.g., `-createdAt,name`).
+ *
+ * @param table - The queried table.
+ * @param raw - The raw `sort` parameter.
+ * @returns The sort keys, in priority order.
+ * @throws {QueryError} If a field does not exist on the table.
+ */
+export function parseSort(table: TableSchema, raw?: string): SortKey[] {
+  if (!raw) return [];
+
+  return splitList(raw).map((item) => {
+    const descending = item.startsWith("-");
+    const field = descending ? item.slice(1) : item;
+    if (table.fields[field] === undefined) {
+      throw new QueryError(`Unknown sort field "${field}" on ${table.table}`);
+    }
+    return { field, direction: descending ? "desc" : "asc" };
+  });
+}
+
+/**
+ * Applies sort keys to a select query on the given table.
+ *
+ * @param query - The query to sort.
+ * @param tableName - The queried table (used to qualify column references).
+ * @param sort - The parsed sort keys.
+ * @returns The sorted query.
+ */
+export function applySort<QB extends AnySelectQuery>(
+  query: QB,
+  tableName: string,
+  sort: SortKey[]
+): QB {
+  for (const key of sort) {
+    query = query.orderBy(`${tableName}.${key.field}`, key.direction) as QB;
+  }
+  return query;
+}
+
+/**
+ * Parses a comma-separated sparse fieldset (e.g., `id,title,author.name`).
+ * Dotted entries select columns of an included relation, at any depth.
+ *
+ * @param config - The Mocklite configuration object.
+ * @param table - The queried table.
+ * @param raw - The raw `fields` parameter.
+ * @returns The field selection.
+ * @throws {QueryError} If a field or relation does not exist.
+ */
+export function parseFields(
+  config: MockliteConfig,
+  table: TableSchema,
+  raw?: string
+): FieldSelection {
+  const selection: FieldSelection = { fields: null, relations: {} };
+  if (!raw) return selection;
+
+  for (const item of splitList(raw)) {
+    const segments = item.split(".");
+    const field = segments.pop()!;
+
+    let current = table;
+    for (const segment of segments) {
+      const relation = findRelation(config, current.table, segment);
+      const next = relation && findTable(config, relation.table);
+      if (!next) {
+        throw new QueryError(
+          `Unknown relation "${segment}" in field "${item}" on ${current.table}`
+        );
+      }
+      current = next;
+    }
+
+    if (current.fields[field] === undefined) {
+      throw new QueryError(`Unknown field "${field}" on ${current.table}`);
+    }
+
+    if (segments.length === 0) {
+      (selection.fields ??= []).push(field);
+    } else {
+      (selection.relations[segments.join(".")] ??= []).push(field);
+    }
+  }
+
+  return selection;
+}
+
+/**
+ * Restricts a query to rows where any text column contains the search term.
+ *
+ * @param query - The query to filter.
+ * @param table - The queried table.
+ * @param term - The search term from `?q=`.
+ * @returns The filtered query (unchanged if the term is empty).
+ */
+export function applySearch<QB extends AnySelectQuery>(
+  query: QB,
+  table: TableSchema,
+  term?: string
+): QB {
+  if (!term) return query;
+
+  const columns = Object.entries(table.fields)
+    .filter(([, def]) => resolveSqlType(def) === "text")
+    .map(([field]) => `${table.table}.${field}`);
+
+  return query.where((eb) =>
+    eb.or(columns.map((column) => eb(column, "like", `%${term}%`)))
+  ) as QB;
+}
+
+function splitList(raw: string) {
+  return raw
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,392 @@
+import { parseForeignKey } from "./fields";
+import type {
+  MockliteConfig,
+  OnDeleteAction,
+  RelationDefinition,
+  TableSchema,
+} from "./types";
+
+/**
+ * A relationship between two tables, derived from the schema.
+ * The join condition is `<current>.localKey = <table>.foreignKey`, or for
+ * many-to-many relations, a match on both sides of the join table.
+ */
+export interface Relation {
+  name: string;
+  kind: RelationDefinition["kind"];
+  /** The related table. */
+  table: string;
+  /** Column on the current table. */
+  localKey: string;
+  /** Column on the related table. */
+  foreignKey: string;
+  /** The join table of a many-to-many relation. */
+  through?: JoinTable;
+}
+
+/**
+ * A join table linking two tables in a many-to-many relation.
+ */
+export interface JoinTable {
+  table: string;
+  /** Join table column referencing the current table's `localKey`. */
+  sourceKey: string;
+  /** Join table column referencing the related table's `foreignKey`. */
+  targetKey: string;
+}
+
+/**
+ * Derives a relation name from an FK field name (e.g., "authorId" -> "author").
+ * Only a trailing "Id"/"_id" suffix is removed, so "videoIdentifier" stays intact.
+ *
+ * @param field - The FK field name.
+ * @returns The relation name, or null if the field has no ID suffix.
+ */
+export function relationNameFromField(field: string) {
+  const match = field.match(/^(.+?)(?:Id|_id)$/);
+  return match ? match[1]! : null;
+}
+
+/**
+ * Finds a table definition by name.
+ *
+ * @param config - The Mocklite configuration object.
+ * @param tableName - The table name.
+ * @returns The table definition, or undefined if not found.
+ */
+export function findTable(config: MockliteConfig, tableName: string) {
+  return config.schema.find((t) => t.table === tableName);
+}
+
+/**
+ * Lists the relations of a table. Declared relations come first; then, unless a
+ * declaration already covers the same FK, BelongsTo for each of its FK fields,
+ * HasMany for each FK in another table that points at it, and the inverse of each
+ * ManyToMany declared by another table. Join tables are never guessed from their FK fields.
+ * Names are unique: when two relations share a name, the first one wins.
+ *
+ * @param config - The Mocklite configuration object.
+ * @param tableName - The table whose relations to list.
+ * @returns The relations, in schema order.
+ */
+export function getRelations(
+  config: MockliteConfig,
+  tableName: string
+): Relation[] {
+  const table = findTable(config, tableName);
+  if (!table) return [];
+
+  const relations = (table.relations ?? []).map((declaration) =>
+    resolveRelation(config, table, declaration)
+  );
+  const declared = new Set(relations.map(relationKey));
+  const names = new Set(relations.map((r) => r.name));
+  const inferred: Relation[] = [];
+
+  for (const [field, def] of Object.entries(table.fields)) {
+    const fk = parseForeignKey(def);
+    if (!fk) continue;
+
+    inferred.push({
+      name: relationNameFromField(field) ?? fk.table,
+      kind: "belongsTo",
+      table: fk.table,
+      localKey: field,
+      foreignKey: fk.column,
+    });
+  }
+
+  for (const other of config.schema) {
+    for (const [field, def] of Object.entries(other.fields)) {
+      const fk = parseForeignKey(def);
+      if (!fk || fk.table !== tableName) continue;
+
+      inferred.push({
+        name: other.table,
+        kind: "hasMany",
+        table: other.table,
+        localKey: fk.column,
+        foreignKey: field,
+      });
+    }
+  }
+
+  for (const other of config.schema) {
+    if (other.table === tableName) continue;
+
+    for (const declaration of other.relations ?? []) {
+      if (declaration.kind !== "manyToMany") continue;
+      const relation = resolveRelation(config, other, declaration);
+      if (relation.table !== tableName) continue;
+
+      inferred.push({
+        name: other.table,
+        kind: "manyToMany",
+        table: other.table,
+        localKey: relation.foreignKey,
+        foreignKey: relation.localKey,
+        through: {
+          table: relation.through!.table,
+          sourceKey: relation.through!.targetKey,
+          targetKey: relation.through!.sourceKey,
+        },
+      });
+    }
+  }
+
+  for (const relation of inferred) {
+    if (declared.has(relationKey(relation)) || names.has(relation.name)) {
+      continue;
+    }
+    relations.push(relation);
+    names.add(relation.name);
+  }
+
+  return relations;
+}
+
+/**
+ * Identifies the FK a relation is built on, so declarations can replace inferred relations.
+ */
+function relationKey(relation: Relation) {
+  if (relation.through) {
+    return `${relation.through.table}.${relation.through.sourceKey}`;
+  }
+  return relation.kind === "belongsTo"
+    ? `~${relation.localKey}`
+    : `${relation.table}.${relation.foreignKey}`;
+}
+
+/**
+ * Resolves a relation declaration against the schema.
+ *
+ * @param config - The Mocklite configuration object.
+ * @param table - The table declaring the relation.
+ * @param declaration - The relation declaration.
+ * @returns The resolved relation.
+ * @throws {Error} If the related table, join table or FK field cannot be found.
+ */
+export function resolveRelation(
+  config: MockliteConfig,
+  table: TableSchema,
+  declaration: RelationDefinition
+): Relation {
+  const { name, kind } = declaration;
+  const related = findTable(config, declaration.table);
+  if (!related) {
+    throw new Error(`Related table "${declaration.table}" does not exist`);
+  }
+
+  if (kind === "belongsTo") {
+    const field = findForeignKey(table, related.table, declaration.foreignKey);
+    const fk = parseForeignKey(table.fields[field]!)!;
+    return {
+      name,
+      kind,
+      table: related.table,
+      localKey: field,
+      foreignKey: fk.column,
+    };
+  }
+
+  if (kind === "hasOne" || kind === "hasMany") {
+    const field = findForeignKey(related, table.table, declaration.foreignKey);
+    const fk = parseForeignKey(related.fields[field]!)!;
+    return {
+      name,
+      kind,
+      table: related.table,
+      localKey: fk.column,
+      foreignKey: field,
+    };
+  }
+
+  const join = declaration.through && findTable(config, declaration.through);
+  if (!join) {
+    throw new Error(`Join table "${declaration.through ?? ""}" does not exist`);
+  }
+  const sourceKey = findForeignKey(join, table.table, declaration.foreignKey);
+  const targetKey = findForeignKey(join, related.table, undefined, sourceKey);
+
+  return {
+    name,
+    kind,
+    table: related.table,
+    localKey: parseForeignKey(join.fields[sourceKey]!)!.column,
+    foreignKey: parseForeignKey(join.fields[targetKey]!)!.column,
+    through: { table: join.table, sourceKey, targetKey },
+  };
+}
+
+/**
+ * Finds the FK field of a table that references another table.
+ *
+ * @param table - The table holding the FK.
+ * @param target - The referenced table.
+ * @param field - An explicitly named field to check instead of searching.
+ * @param exclude - A field to skip (the other side of a self-referencing join table).
+ * @returns The FK field name.
+ * @throws {Error} If no field, or more than one, matches.
+ */
+function findForeignKey(
+  table: TableSchema,
+  target: string,
+  field?: string,
+  exclude?: string
+) {
+  if (field !== undefined) {
+    const def = table.fields[field];
+    if (def === undefined || parseForeignKey(def)?.table !== target) {
+      throw new Error(`${table.table}.${field} is not an FK to ${target}`);
+    }
+    return field;
+  }
+
+  const matches = Object.entries(table.fields)
+    .filter(
+      ([name, def]) =>
+        name !== exclude && parseForeignKey(def)?.table === target
+    )
+    .map(([name]) => name);
+
+  if (matches.length !== 1) {
+    throw new Error(
+      matches.length === 0
+        ? `${table.table} has no FK to ${target}`
+        : `${table.table} has several FKs to ${target}; set "foreignKey"`
+    );
+  }
+  return matches[0]!;
+}
+
+/**
+ * Looks up the delete behavior of an FK column from the relation declarations.
+ * A declaration on either side of the relation applies.
+ *
+ * @param config - The Mocklite configuration object.
+ * @param tableName - The table holding the FK column.
+ * @param field - The FK column.
+ * @returns The delete behavior (default: "cascade").
+ */
+export function getOnDeleteAction(
+  config: MockliteConfig,
+  tableName: string,
+  field: string
+): OnDeleteAction {
+  for (const table of config.schema) {
+    for (const declaration of table.relations ?? []) {
+      if (!declaration.onDelete) continue;
+
+      const relation = resolveRelation(config, table, declaration);
+      const [owner, column] = relation.through
+        ? [relation.through.table, relation.through.sourceKey]
+        : relation.kind === "belongsTo"
+        ? [table.table, relation.localKey]
+        : [relation.table, relation.foreignKey];
+
+      if (owner === tableName && column === field) {
+        return declaration.onDelete;
+      }
+    }
+  }
+  return "cascade";
+}
+
+/**
+ * Finds a relation of a table by name.
+ * BelongsTo relations can also be addressed by the target table name (e.g., "users" for "author").
+ *
+ * @param config - The Mocklite configuration object.
+ * @param tableName - The table whose relation to find.
+ * @param name - The relation name.
+ * @returns The relation, or undefined if none matches.
+ */
+export function findRelation(
+  config: MockliteConfig,
+  tableName: string,
+  name: string
+): Relation | undefined {
+  const relations = getRelations(config, tableName);
+  return (
+    relations.find((r) => r.name === name) ??
+    relations.find((r) => r.kind === "belongsTo" && r.table === name)
+  );
+}
+
+/**
+ * Orders tables so that each comes after the tables its FK fields reference,
+ * keeping the config order where the references allow it. Self-references are ignored.
+ * A cycle is broken by placing one of its tables before the others; its FK fields
+ * into the cycle then have no rows to point at yet. Tables whose references into the
+ * cycle are plain, nullable FKs are preferred, since leaving those empty is harmless.
+ *
+ * @param schema - The table definitions.
+ * @returns The ordered tables, and the cycles found (as table names, e.g. ["users", "posts", "users"]).
+ */
+export function sortTablesByDependencies(schema: TableSchema[]) {
+  const names = new Set(schema.map((t) => t.table));
+  const dependencies = new Map<string, Set<string>>();
+  for (const table of schema) {
+    const targets = Object.values(table.fields)
+      .map((def) => parseForeignKey(def)?.table)
+      .filter(
+        (target): target is string =>
+          target !== undefined && target !== table.table && names.has(target)
+      );
+    dependencies.set(table.table, new Set(targets));
+  }
+
+  const tables: TableSchema[] = [];
+  const cycles: string[][] = [];
+  const done = new Set<string>();
+  const pending = (name: string) =>
+    [...dependencies.get(name)!].filter((d) => !done.has(d));
+
+  while (tables.length < schema.length) {
+    let next = schema.find(
+      (t) => !done.has(t.table) && pending(t.table).length === 0
+    );
+
+    if (!next) {
+      // Every remaining table waits on another one, so following the references must loop
+      const path = [schema.find((t) => !done.has(t.table))!.table];
+      for (;;) {
+        const target = pending(path[path.length - 1]!)[0]!;
+        const start = path.indexOf(target);
+        if (start !== -1) {
+          const members = path.slice(start);
+          const first = Math.max(
+            0,
+            members.findIndex((name, i) =>
+              canLeaveEmpty(schema, name, members[(i + 1) % members.length]!)
+            )
+          );
+          const cycle = [...members.slice(first), ...members.slice(0, first)];
+          cycles.push([...cycle, cycle[0]!]);
+          next = schema.find((t) => t.table === cycle[0])!;
+          break;
+        }
+        path.push(target);
+      }
+    }
+
+    tables.push(next);
+    done.add(next.table);
+  }
+
+  return { tables, cycles };
+}
+
+/**
+ * Checks whether every FK from one table to another can be left empty when seeding:
+ * it is nullable and has no distribution options.
+ */
+function canLeaveEmpty(schema: TableSchema[], from: string, to: string) {
+  const table = schema.find((t) => t.table === from)!;
+  return Object.values(table.fields).every(
+    (def) =>
+      parseForeignKey(def)?.table !== to ||
+      typeof def !== "object" ||
+      (def.distribution === undefined && def.nullable !== false)
+  );
+}
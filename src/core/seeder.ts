@@ -1,12 +1,92 @@
-import { Kysely } from "kysely";
+import { Kysely, sql } from "kysely";
 import { faker } from "@faker-js/faker";
 import pc from "picocolors";
-import type { MockliteConfig, FieldType } from "./types";
+import type {
+  MockliteConfig,
+  FieldType,
+  FixtureRow,
+  ForeignKeyDistribution,
+  TableSchema,
+} from "./types";
+import {
+  fromStorageRow,
+  parseForeignKey,
+  resolveFakerPath,
+  resolveSqlType,
+  toStorageRow,
+  toStorageValue,
+} from "./fields";
+import {
+  REFERENCE,
+  TEMPLATE_TYPE,
+  getReferencePaths,
+  renderFieldTemplate,
+  resolveReference,
+  sortFields,
+  substituteReferences,
+  type FieldReference,
+} from "./computed";
+import { FIXTURE_KEY, FIXTURE_REF, loadFixtures } from "./fixtures";
+import {
+  findTable,
+  sortTablesByDependencies,
+  type Relation,
+} from "./relations";
+
+/**
+ * Reference date used for relative Faker dates (e.g., `faker.date.past`) when seeding deterministically.
+ */
+const SEEDED_REF_DATE = "2025-01-01T00:00:00.000Z";
+
+/**
+ * SQLite's default limit on bound parameters per statement; generated rows are inserted in batches below it.
+ */
+const MAX_VARIABLES = 32766;
+
+/**
+ * Picks the value of an FK field for the row at the given index.
+ */
+type ForeignKeyPicker = (index: number) => unknown;
+
+/**
+ * Looks up a value referenced by a computed field (e.g., "createdAt" or "author.companyId")
+ * for the row being generated.
+ */
+export type ReferenceResolver = (
+  path: string,
+  row: Record<string, unknown>
+) => unknown;
+
+/**
+ * Resolves references to fields of the row itself.
+ */
+const resolveRowReference: ReferenceResolver = (path, row) => row[path];
+
+/**
+ * What the seeder needs to generate the rows of a table.
+ */
+interface RowContext {
+  /** The fields in generation order, so that each comes after the values it references. */
+  fields: string[];
+  /** The FK pickers of the table. */
+  pickers: Record<string, ForeignKeyPicker>;
+  /** Values used instead of generated ones (e.g., scenario overrides). */
+  overrides: Record<string, unknown>;
+  /** Looks up the values referenced by computed fields. */
+  resolve: ReferenceResolver;
+}
 
 /**
  * Handles database seeding with fake data based on the configuration.
  */
 export class Seeder {
+  /** Candidate FK values per "table.column", loaded once per seeding run. */
+  private fkValues = new Map<string, unknown[]>();
+  /** Rows of referenced tables per "table.column", keyed by that column, loaded once per seeding run. */
+  private parentRows = new Map<string, Map<unknown, Record<string, unknown>>>();
+  /** Fixture rows inserted in the current run, per "table:key". */
+  private fixtureRows = new Map<string, Record<string, unknown>>();
+
   constructor(private db: Kysely<any>) {}
 
   /**
@@ -15,101 +95,486 @@ export class Seeder {
    * @param config - The Mocklite configuration object.
    */
   async clear(config: MockliteConfig) {
-    for (const table of config.schema) {
-      try {
-        await this.db.deleteFrom(table.table).execute();
-      } catch (e) {
-        // ignore
+    // Every table is emptied, so "restrict" FKs must not stop a parent from being deleted first
+    await sql`PRAGMA foreign_keys = OFF`.execute(this.db);
+    try {
+      for (const table of config.schema) {
+        try {
+          await this.db.deleteFrom(table.table).execute();
+        } catch (e) {
+          // ignore
+        }
       }
+    } finally {
+      await sql`PRAGMA foreign_keys = ON`.execute(this.db);
+    }
+
+    // Restart autoincrement counters so a seeded re-run reproduces the same IDs
+    try {
+      await this.db
+        .deleteFrom("sqlite_sequence")
+        .where(
+          "name",
+          "in",
+          config.schema.map((t) => t.table)
+        )
+        .execute();
+    } catch (e) {
+      // sqlite_sequence only exists once an autoincrement table was written to
     }
   }
 
   /**
    * Runs the seeding process for all tables defined in the configuration.
    * Generates fake data and inserts it into the database.
+   * Tables are seeded after the tables they reference, each in a single transaction.
+   * Within a row, computed fields are generated after the values they reference.
+   * Tables that already contain rows (e.g., a persisted database) are skipped.
+   * When a `fakerSeed` is configured, the generated data is identical on every run.
    *
    * @param config - The Mocklite configuration object.
+   * @param scenarioName - A scenario from `config.scenarios` to apply.
+   * @throws {Error} If the scenario does not exist.
    */
-  async run(config: MockliteConfig) {
-    console.log(pc.cyan("🌱 Seeding database..."));
+  async run(config: MockliteConfig, scenarioName?: string) {
+    const scenario =
+      scenarioName === undefined ? undefined : config.scenarios?.[scenarioName];
+    if (scenarioName !== undefined && !scenario) {
+      throw new Error(`Unknown scenario "${scenarioName}"`);
+    }
 
-    for (const table of config.schema) {
-      const count = table.seed || 0;
-      if (count === 0) continue;
+    console.log(
+      pc.cyan(
+        scenario
+          ? `🌱 Seeding database (scenario: ${scenarioName})...`
+          : "🌱 Seeding database..."
+      )
+    );
+    this.fkValues.clear();
+    this.parentRows.clear();
+    this.fixtureRows.clear();
 
-      const rows: Record<string, unknown>[] = [];
-      console.log(pc.dim(`   Generaring ${count} rows for ${table.table}...`));
+    const { tables, cycles } = sortTablesByDependencies(config.schema);
+    for (const cycle of cycles) {
+      console.log(
+        pc.yellow(
+          `   ⚠️  FK cycle ${cycle.join(" → ")}: ${
+            cycle[0]
+          } is seeded first, ` +
+            `so its references to ${cycle[1]} are left empty`
+        )
+      );
+    }
+
+    for (const table of tables) {
+      const scenarioCount = scenario?.seed?.[table.table];
+      // An FK with a per-parent `min`/`max` decides the row count, unless the scenario sets one
+      const spread =
+        scenarioCount === undefined ? findSpreadField(table) : undefined;
+      const fixtures = [
+        ...(await loadFixtures(table)),
+        ...(scenario?.fixtures?.[table.table] ?? []),
+      ];
+      if (
+        !spread &&
+        (scenarioCount ?? table.seed ?? 0) === 0 &&
+        fixtures.length === 0
+      ) {
+        continue;
+      }
+
+      const existing = await this.countRows(table.table);
+      if (existing > 0) {
+        console.log(
+          pc.dim(`   Skipping ${table.table} (already has ${existing} rows)`)
+        );
+        continue;
+      }
 
-      for (let i = 0; i < count; i++) {
-        const row = await this.generateRow(table.fields);
-        rows.push(row);
+      // Fixtures may set different columns than generated rows, so each is inserted on its own
+      for (const fixture of fixtures) {
+        await this.insertFixture(table, fixture);
       }
 
-      if (rows.length > 0) {
-        await this.db.insertInto(table.table).values(rows).execute();
+      this.seedFaker(config, table);
+
+      const { pickers, plan } = await this.createPickers(table, spread);
+      const count = plan?.length ?? scenarioCount ?? table.seed ?? 0;
+      console.log(pc.dim(`   Generaring ${count} rows for ${table.table}...`));
+
+      await this.insertGenerated(table, count, {
+        fields: sortFields(config, table).fields,
+        pickers,
+        overrides: scenario?.overrides?.[table.table] ?? {},
+        resolve: await this.createResolver(config, table),
+      });
+
+      // The table's rows changed; later tables referencing it must reload them
+      for (const cache of [this.fkValues, this.parentRows]) {
+        for (const key of cache.keys()) {
+          if (key.startsWith(`${table.table}.`)) cache.delete(key);
+        }
       }
     }
 
+    // Return to unseeded randomness for anything generated after seeding
+    this.seedFaker(config);
+    this.fkValues.clear();
+    this.parentRows.clear();
+    this.fixtureRows.clear();
+
     console.log(pc.green("✨ Seeding complete!"));
   }
 
   /**
-   * Generates a single row of fake data based on the field definitions.
-   * Handles Foreign Keys by fetching existing IDs from the database.
+   * Generates rows and inserts them in batches, inside one transaction.
    *
-   * @param fields - The field definitions for the table.
-   * @returns A promise that resolves to a record of fake data.
+   * @param table - The table to seed.
+   * @param count - The number of rows to generate.
+   * @param context - How to generate the rows.
    */
-  private async generateRow(fields: Record<string, FieldType>) {
-    const row: Record<string, unknown> = {};
-
-    for (const [key, def] of Object.entries(fields)) {
-      if (def === "pk") continue;
+  private async insertGenerated(
+    table: TableSchema,
+    count: number,
+    context: RowContext
+  ) {
+    if (count === 0) return;
 
-      if (typeof def === "string" && def.startsWith("fk:")) {
-        const target = def.split(":")[1];
+    const columns = Object.keys(table.fields).length;
+    const batchSize = Math.max(1, Math.floor(MAX_VARIABLES / columns));
 
-        if (!target) {
-          throw new Error(`Invalid FK definition: ${def}`);
+    await this.db.transaction().execute(async (trx) => {
+      for (let start = 0; start < count; start += batchSize) {
+        const rows: Record<string, unknown>[] = [];
+        const end = Math.min(count, start + batchSize);
+        for (let i = start; i < end; i++) {
+          rows.push(await this.generateRow(table.fields, i, context));
         }
+        await trx.insertInto(table.table).values(rows).execute();
+      }
+    });
+  }
 
-        const [targetTable, targetCol] = target.split(".");
+  /**
+   * Builds a picker for each FK field of a table, following its distribution options.
+   * The candidates are loaded up front, so no query runs while rows are generated.
+   *
+   * @param table - The table about to be seeded.
+   * @param spread - The FK field whose per-parent `min`/`max` decides the row count.
+   * @returns The pickers, and for `spread` the parent of each row to generate.
+   */
+  private async createPickers(table: TableSchema, spread?: string) {
+    const pickers: Record<string, ForeignKeyPicker> = {};
+    let plan: unknown[] | undefined;
 
-        if (!targetTable || !targetCol) {
-          throw new Error(`Invalid FK definition: ${def}`);
-        }
+    for (const [field, def] of Object.entries(table.fields)) {
+      const fk = parseForeignKey(def);
+      if (!fk) continue;
 
-        const result = await this.db
-          .selectFrom(targetTable)
-          .select(targetCol)
-          .orderBy(this.db.fn("RANDOM", []))
-          .limit(1)
-          .executeTakeFirst();
+      const candidates = await this.loadFkValues(fk.table, fk.column);
+      const options = typeof def === "object" ? def : undefined;
+      const distribution = options?.distribution ?? {};
 
-        row[key] = result ? result[targetCol] : null;
-        continue;
+      if (field === spread) {
+        const parents = planChildren(candidates, distribution, table.seed ?? 0);
+        pickers[field] = (index) => parents[index];
+        plan = parents;
+      } else if (options?.unique) {
+        // Each parent is used once; rows beyond the number of parents get none
+        const queue = faker.helpers.shuffle(candidates);
+        pickers[field] = (index) => queue[index] ?? null;
+      } else if (distribution.skew) {
+        pickers[field] = skewedPicker(candidates, distribution.skew);
+      } else {
+        pickers[field] = () =>
+          candidates.length > 0 ? faker.helpers.arrayElement(candidates) : null;
+      }
+    }
+
+    return { pickers, plan };
+  }
+
+  /**
+   * Builds the lookup for the references of a table's computed fields.
+   * The parent rows they reach are loaded up front, so no query runs while rows are generated.
+   *
+   * @param config - The Mocklite configuration object.
+   * @param table - The table about to be seeded (or backfilled).
+   * @returns The resolver.
+   */
+  async createResolver(
+    config: MockliteConfig,
+    table: TableSchema
+  ): Promise<ReferenceResolver> {
+    const references = new Map<string, FieldReference>();
+    const parents = new Map<string, Map<unknown, Record<string, unknown>>>();
+
+    for (const def of Object.values(table.fields)) {
+      for (const path of getReferencePaths(def)) {
+        const reference = resolveReference(config, table, path);
+        references.set(path, reference);
+
+        const relation = reference.relation;
+        if (relation && !parents.has(relation.name)) {
+          parents.set(
+            relation.name,
+            await this.loadParentRows(config, relation)
+          );
+        }
       }
+    }
+
+    return (path, row) => {
+      const reference = references.get(path);
+      if (!reference?.relation) return row[reference?.field ?? path];
+
+      const { name, localKey } = reference.relation;
+      return parents.get(name)!.get(row[localKey])?.[reference.field];
+    };
+  }
+
+  /**
+   * Loads the rows a BelongsTo relation can point at, keyed by the referenced column.
+   *
+   * @param config - The Mocklite configuration object.
+   * @param relation - The relation.
+   * @returns The rows, as returned by the API.
+   */
+  private async loadParentRows(config: MockliteConfig, relation: Relation) {
+    const key = `${relation.table}.${relation.foreignKey}`;
+    let rows = this.parentRows.get(key);
 
-      let value = this.resolveValue(def);
+    if (!rows) {
+      const table = findTable(config, relation.table)!;
+      const stored = await this.db
+        .selectFrom(relation.table)
+        .selectAll()
+        .execute();
+      rows = new Map(
+        stored.map((row) => [
+          row[relation.foreignKey],
+          fromStorageRow(table, row),
+        ])
+      );
+      this.parentRows.set(key, rows);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Inserts a fixture row as given. FK fields may reference a fixture inserted
+   * earlier in the run by its key (e.g., `"authorId": "@jane"`).
+   *
+   * @param table - The table to insert into.
+   * @param fixture - The fixture row.
+   * @throws {Error} If a referenced fixture does not exist.
+   */
+  private async insertFixture(table: TableSchema, fixture: FixtureRow) {
+    const { [FIXTURE_KEY]: key, ...values } = fixture;
+
+    for (const [field, value] of Object.entries(values)) {
+      const def = table.fields[field];
+      const fk = def === undefined ? null : parseForeignKey(def);
+      const ref = typeof value === "string" ? value.match(FIXTURE_REF) : null;
+      if (!fk || !ref) continue;
 
-      if (typeof value === "boolean") {
-        value = value ? 1 : 0;
+      const target = this.fixtureRows.get(`${fk.table}:${ref[1]}`);
+      if (!target) {
+        throw new Error(
+          `${table.table}.${field}: no ${fk.table} fixture with key "${ref[1]}"`
+        );
       }
+      values[field] = target[fk.column];
+    }
+
+    const row = await this.db
+      .insertInto(table.table)
+      .values(toStorageRow(table, values))
+      .returningAll()
+      .executeTakeFirstOrThrow();
+    if (key !== undefined) {
+      this.fixtureRows.set(`${table.table}:${key}`, row);
+    }
+  }
 
-      row[key] = value;
+  /**
+   * Seeds Faker for the given table, or restores random behaviour when no seed applies.
+   * A table's own `fakerSeed` wins; otherwise the global seed is mixed with the table name
+   * so that each table's data does not depend on the order or contents of the others.
+   *
+   * @param config - The Mocklite configuration object.
+   * @param table - The table about to be seeded, if any.
+   */
+  private seedFaker(config: MockliteConfig, table?: TableSchema) {
+    if (table?.fakerSeed !== undefined) {
+      faker.seed(table.fakerSeed);
+    } else if (table && config.fakerSeed !== undefined) {
+      faker.seed([config.fakerSeed, hashString(table.table)]);
+    } else {
+      faker.seed();
+      faker.setDefaultRefDate();
+      return;
+    }
+
+    faker.setDefaultRefDate(SEEDED_REF_DATE);
+  }
+
+  /**
+   * Counts the rows currently stored in a table.
+   *
+   * @param tableName - The table to count.
+   * @returns The number of rows.
+   */
+  private async countRows(tableName: string) {
+    const result = await this.db
+      .selectFrom(tableName)
+      .select((eb) => eb.fn.countAll().as("total"))
+      .executeTakeFirst();
+    return Number(result?.total || 0);
+  }
+
+  /**
+   * Generates a single row of fake data based on the field definitions.
+   *
+   * @param fields - The field definitions for the table.
+   * @param index - The position of the row in the table, passed to generator functions.
+   * @param context - How to generate the rows of the table.
+   * @returns A promise that resolves to a record of fake data.
+   */
+  private async generateRow(
+    fields: Record<string, FieldType>,
+    index: number,
+    { fields: order, pickers, overrides, resolve }: RowContext
+  ) {
+    const row: Record<string, unknown> = {};
+    // Generator functions and computed fields see the values as generated, not as stored
+    const values: Record<string, unknown> = {};
+
+    for (const key of order) {
+      const def = fields[key]!;
+      if (key in overrides) {
+        values[key] = overrides[key];
+      } else if (def === "pk") {
+        continue;
+      } else {
+        const picker = pickers[key];
+        values[key] = picker
+          ? picker(index)
+          : await this.pickValue(def, values, index, resolve);
+      }
+      row[key] = this.toStored(def, values[key]);
     }
 
     return row;
   }
 
+  /**
+   * Generates a storable value for a single field definition.
+   * Also used to backfill columns added by a migration.
+   *
+   * @param def - The field definition.
+   * @param row - The values generated so far for the row.
+   * @param index - The position of the row in the table.
+   * @param resolve - Looks up the values referenced by computed fields (see `createResolver`);
+   *   by default only fields of the row itself.
+   * @returns A promise that resolves to the generated value.
+   */
+  async generateValue(
+    def: FieldType,
+    row: Record<string, unknown> = {},
+    index = 0,
+    resolve: ReferenceResolver = resolveRowReference
+  ): Promise<unknown> {
+    return this.toStored(def, await this.pickValue(def, row, index, resolve));
+  }
+
+  /**
+   * Converts a generated value for storage. FK values are copied from the referenced column as is.
+   */
+  private toStored(def: FieldType, value: unknown) {
+    return parseForeignKey(def)
+      ? value
+      : toStorageValue(resolveSqlType(def), value);
+  }
+
+  /**
+   * Generates a value for a single field definition, before conversion for storage.
+   * Handles Foreign Keys by picking one of the existing IDs in the target table.
+   *
+   * @param def - The field definition.
+   * @param row - The values generated so far for the row.
+   * @param index - The position of the row in the table.
+   * @param resolve - Looks up the values referenced by computed fields.
+   * @returns A promise that resolves to the generated value.
+   */
+  private async pickValue(
+    def: FieldType,
+    row: Record<string, unknown>,
+    index: number,
+    resolve: ReferenceResolver
+  ): Promise<unknown> {
+    const fk = parseForeignKey(def);
+    if (fk) {
+      const candidates = await this.loadFkValues(fk.table, fk.column);
+      return candidates.length > 0
+        ? faker.helpers.arrayElement(candidates)
+        : null;
+    }
+
+    return this.resolveValue(def, row, index, resolve);
+  }
+
+  /**
+   * Loads the existing values of a referenced column, in a stable order.
+   * Picking from this list with Faker (instead of `ORDER BY RANDOM()`) keeps FK assignment reproducible.
+   *
+   * @param table - The referenced table.
+   * @param column - The referenced column.
+   * @returns The candidate values.
+   */
+  private async loadFkValues(table: string, column: string) {
+    const key = `${table}.${column}`;
+    let values = this.fkValues.get(key);
+
+    if (!values) {
+      const rows = await this.db
+        .selectFrom(table)
+        .select(column)
+        .orderBy(column)
+        .execute();
+      values = rows.map((row) => row[column]);
+      this.fkValues.set(key, values);
+    }
+
+    return values;
+  }
+
   /**
    * Resolves the value for a specific field definition.
-   * Handles Faker strings, Enums, and custom objects.
+   * Handles Faker strings, Enums, generator functions, templates, references and custom objects.
    *
    * @param def - The field definition.
+   * @param row - The values generated so far for the row.
+   * @param index - The position of the row in the table.
+   * @param resolve - Looks up the values referenced by computed fields.
    * @returns The resolved value (string, number, boolean, etc.).
    */
-  private resolveValue(def: FieldType): unknown {
+  private resolveValue(
+    def: FieldType,
+    row: Record<string, unknown>,
+    index: number,
+    resolve: ReferenceResolver
+  ): unknown {
+    if (typeof def === "function") {
+      return def(faker, { ...row }, index);
+    }
+
+    const lookup = (path: string) => resolve(path, row);
+    const source = typeof def === "object" ? def.type : def;
+    const copy = typeof source === "string" ? source.match(REFERENCE) : null;
+    if (copy) return lookup(copy[1]!) ?? null;
+
     if (typeof def === "string") {
       if (def.startsWith("faker.")) {
         return this.executeFakerPath(def);
@@ -118,11 +583,22 @@ export class Seeder {
     }
 
     if (typeof def === "object") {
+      if (typeof def.type === "function") {
+        return def.type(faker, { ...row }, index);
+      }
       if (def.type === "enum" && def.values) {
         return faker.helpers.arrayElement(def.values);
       }
+      if (def.type === TEMPLATE_TYPE) {
+        return renderFieldTemplate(def.value ?? "", lookup);
+      }
       if (def.type && def.type.startsWith("faker.")) {
-        return this.executeFakerPath(def.type, def.options);
+        return this.executeFakerPath(
+          def.type,
+          substituteReferences(def.options, lookup) as
+            | Record<string, unknown>
+            | undefined
+        );
       }
     }
 
@@ -137,16 +613,102 @@ export class Seeder {
    * @returns The generated fake value.
    */
   private executeFakerPath(pathStr: string, options?: Record<string, unknown>) {
-    const path = pathStr.replace("faker.", "").split(".");
-    let generator: any = faker;
+    const generator = resolveFakerPath(pathStr);
 
-    for (const p of path) {
-      generator = generator[p];
-    }
-
-    if (typeof generator === "function") {
+    if (generator) {
       return options !== undefined ? generator(options) : generator();
     }
     return null;
   }
 }
+
+/**
+ * Finds the FK field of a table that sets a per-parent `min` or `max`.
+ *
+ * @param table - The table definition.
+ * @returns The field name, or undefined if there is none.
+ */
+function findSpreadField(table: TableSchema) {
+  return Object.entries(table.fields).find(
+    ([, def]) =>
+      typeof def === "object" &&
+      (def.distribution?.min !== undefined ||
+        def.distribution?.max !== undefined) &&
+      parseForeignKey(def)
+  )?.[0];
+}
+
+/**
+ * Gives each parent between `min` and `max` children. Without a `max`, each parent gets
+ * `min` children and the rows still missing to reach `count` go to random parents.
+ *
+ * @param parents - The candidate parent values.
+ * @param distribution - The FK distribution options.
+ * @param count - The table's `seed`, used when there is no `max`.
+ * @returns The parent of each row to generate, shuffled.
+ */
+function planChildren(
+  parents: unknown[],
+  { min = 0, max, skew }: ForeignKeyDistribution,
+  count: number
+) {
+  const plan: unknown[] = [];
+  for (const parent of parents) {
+    const children = max === undefined ? min : faker.number.int({ min, max });
+    for (let i = 0; i < children; i++) plan.push(parent);
+  }
+
+  if (max === undefined && parents.length > 0) {
+    const pick = skew
+      ? skewedPicker(parents, skew)
+      : () => faker.helpers.arrayElement(parents);
+    while (plan.length < count) plan.push(pick(plan.length));
+  }
+  return faker.helpers.shuffle(plan);
+}
+
+/**
+ * Picks parents with Zipf weights: the k-th parent is chosen in proportion to 1 / k^skew.
+ *
+ * @param parents - The candidate parent values, in a stable order.
+ * @param skew - The Zipf exponent.
+ * @returns The picker.
+ */
+function skewedPicker(parents: unknown[], skew: number): ForeignKeyPicker {
+  const cumulative: number[] = [];
+  let total = 0;
+  parents.forEach((_, k) => {
+    total += 1 / Math.pow(k + 1, skew);
+    cumulative.push(total);
+  });
+
+  return () => {
+    if (parents.length === 0) return null;
+
+    // Binary search for the first parent whose cumulative weight exceeds the roll
+    const roll = faker.number.float({ min: 0, max: total });
+    let low = 0;
+    let high = cumulative.length - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (cumulative[mid]! > roll) high = mid;
+      else low = mid + 1;
+    }
+    return parents[low];
+  };
+}
+
+/**
+ * Computes a 32-bit FNV-1a hash of a string, used to derive per-table Faker seeds.
+ *
+ * @param value - The string to hash.
+ * @returns An unsigned 32-bit integer.
+ */
+function hashString(value: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -1,33 +1,180 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
+import { HTTPException } from "hono/http-exception";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
 import { serve } from "@hono/node-server";
 import { cors } from "hono/cors";
 import { logger } from "hono/logger";
-import { Kysely, type SelectQueryBuilder } from "kysely";
+import { Kysely } from "kysely";
 import pc from "picocolors";
-import type { MockliteConfig } from "./types";
-import { jsonArrayFrom, jsonObjectFrom } from "kysely/helpers/sqlite";
+import type {
+  HookContext,
+  HookRow,
+  MockliteConfig,
+  TableSchema,
+} from "./types";
 import { version } from "../../package.json";
 import Table from "cli-table3";
 import { Seeder } from "./seeder";
+import type { MockDatabase } from "./db";
+import { parseForeignKey, toStorageRow } from "./fields";
+import { validatePayload } from "./payload";
+import { applyJsonPatch, applyMergePatch, PatchError } from "./patch";
+import {
+  applyIncludes,
+  fromStorageResult,
+  parseIncludes,
+  type IncludeNode,
+} from "./include";
+import { findTable, getRelations, type Relation } from "./relations";
+import { generateOpenApi } from "./openapi";
+import { renderDocsPage } from "./docs";
+import { networkSimulation } from "./network";
+import { ADMIN_PREFIX, createAdminApp, type AdminActions } from "./admin";
+import { graphql } from "graphql";
+import {
+  buildGraphQLSchema,
+  type GraphQLContext,
+  type GraphQLRequest,
+} from "./graphql";
+import { renderTemplate, type TemplateContext } from "./template";
+import { runAfterRead, runRowHook } from "./hooks";
+import { buildLinkHeader } from "./pagination";
+import { parseFields, QueryError } from "./query";
+import {
+  queryList,
+  relationScope,
+  selectColumns,
+  type QueryScope,
+} from "./list";
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Creates an HTTPException carrying a JSON error body.
+ *
+ * @param status - The HTTP status code.
+ * @param body - The JSON response body.
+ * @returns The exception to throw from a handler.
+ */
+function httpError(
+  status: ContentfulStatusCode,
+  body: Record<string, unknown>
+) {
+  return new HTTPException(status, { res: Response.json(body, { status }) });
+}
 
 /**
  * The main Mocklite server class.
  * Handles API route generation, server lifecycle, and request handling.
  */
-export class MockServer {
+export class MockServer implements AdminActions {
+  private db: Kysely<any>;
   private app: Hono;
+  private port = 0;
+  /** Whether the next key press picks a scenario from the interactive menu. */
+  private choosingScenario = false;
 
   /**
    * Initializes a new instance of the MockServer class.
    * Sets up the Hono app, middleware (logging, CORS, network simulation), and routes.
    *
-   * @param db - The Kysely database instance.
+   * @param database - The database to serve.
    * @param config - The Mocklite configuration object.
+   * @param activeScenario - The scenario the database was seeded with.
+   */
+  constructor(
+    private database: MockDatabase,
+    private config: MockliteConfig,
+    private activeScenario?: string
+  ) {
+    this.db = database.getInstance();
+    this.app = this.createApp();
+  }
+
+  /**
+   * Returns the config the server is running with.
+   */
+  getConfig() {
+    return this.config;
+  }
+
+  /**
+   * The scenario the database was last seeded with, if any.
+   */
+  get scenario() {
+    return this.activeScenario;
+  }
+
+  /**
+   * Lists the scenarios defined in the config.
+   *
+   * @returns The scenario names.
+   */
+  scenarioNames() {
+    return Object.keys(this.config.scenarios ?? {});
+  }
+
+  /**
+   * Clears the database and seeds it again for a scenario.
+   *
+   * @param name - The scenario to apply; omit for the tables' own `seed`.
+   * @throws {Error} If the scenario does not exist.
+   */
+  async useScenario(name?: string) {
+    if (name !== undefined && !this.config.scenarios?.[name]) {
+      throw new Error(`Unknown scenario "${name}"`);
+    }
+
+    const seeder = new Seeder(this.db);
+    await seeder.clear(this.config);
+    await seeder.run(this.config, name);
+    this.activeScenario = name;
+  }
+
+  /**
+   * Deletes every row without seeding again.
+   */
+  async reset() {
+    await new Seeder(this.db).clear(this.config);
+  }
+
+  /**
+   * Replaces the database with a snapshot. The snapshot's data did not necessarily
+   * come from the active scenario, so none is active afterwards.
+   *
+   * @param name - The snapshot name.
+   * @throws {SnapshotError} If the snapshot does not exist or was taken from a different schema.
    */
-  constructor(private db: Kysely<any>, private config: MockliteConfig) {
-    this.app = new Hono();
+  async restore(name: string) {
+    await this.database.restore(name, this.config.schema);
+    this.activeScenario = undefined;
+  }
 
-    this.app.use("*", async (c, next) => {
+  /**
+   * Swaps in a new configuration without restarting the HTTP server.
+   * The routing table is rebuilt in place and the banner is reprinted.
+   *
+   * @param config - The new Mocklite configuration object.
+   */
+  reload(config: MockliteConfig) {
+    this.config = config;
+    if (this.activeScenario && !config.scenarios?.[this.activeScenario]) {
+      this.activeScenario = undefined;
+    }
+    this.app = this.createApp();
+    this.printBanner(this.port);
+  }
+
+  /**
+   * Builds a Hono app with middleware and routes for the current configuration.
+   *
+   * @returns The configured Hono app.
+   */
+  private createApp() {
+    const app = new Hono();
+
+    app.use("*", async (c, next) => {
       const start = Date.now();
       const method = c.req.method;
       const url = c.req.url;
@@ -55,83 +202,370 @@ export class MockServer {
       );
     });
 
-    this.app.use("*", cors());
+    // Expose pagination headers to browser clients
+    app.use(
+      "*",
+      cors({ origin: "*", exposeHeaders: ["X-Total-Count", "Link"] })
+    );
 
-    // Network Simulation Middleware
-    this.app.use("*", async (c, next) => {
-      // 1. Chaos Mode (Global Error Rate)
-      if (this.config.errorRate) {
-        if (Math.random() < this.config.errorRate) {
-          throw new Error("Chaos Monkey struck! Request failed intentionally.");
-        }
-      }
+    // Network Simulation Middleware (after CORS, so preflights and simulated errors keep their headers)
+    app.use("*", networkSimulation(this.config));
 
-      // 2. Global Delay (Network Throttling)
-      if (this.config.delay) {
-        await new Promise((resolve) => setTimeout(resolve, this.config.delay));
+    // Global Error Handler
+    app.onError((err, c) => {
+      if (err instanceof HTTPException) {
+        return err.getResponse();
       }
 
-      await next();
-    });
+      if (err instanceof QueryError) {
+        return c.json({ error: err.message }, 400);
+      }
 
-    // Global Error Handler
-    this.app.onError((err, c) => {
       const status = 500;
       return c.json({ error: err.message || "Internal Server Error" }, status);
     });
 
-    this.generateRoutes();
+    app.route(
+      ADMIN_PREFIX,
+      createAdminApp(this, this.database, this.config.adminToken)
+    );
+
+    // Registered first so they take precedence over the generated routes
+    this.generateCustomRoutes(app);
+    this.generateRoutes(app);
+
+    // Registered after the tables so a table named "docs" keeps its routes
+    app.get("/openapi.json", (c) =>
+      c.json(generateOpenApi(this.config, new URL(c.req.url).origin))
+    );
+    app.get("/docs", (c) => c.html(renderDocsPage()));
+
+    if (this.config.graphql) {
+      this.generateGraphQLRoute(app);
+    }
+
+    return app;
+  }
+
+  /**
+   * Registers the custom routes from the `routes` section.
+   * Each responds with its rendered header and body templates.
+   *
+   * @param app - The Hono app to register the routes on.
+   */
+  private generateCustomRoutes(app: Hono) {
+    for (const route of this.config.routes ?? []) {
+      app.on(route.method ?? "GET", route.path, async (c) => {
+        const context: TemplateContext = {
+          params: c.req.param(),
+          query: c.req.query(),
+          body: await this.readOptionalJson(c),
+        };
+
+        for (const [name, value] of Object.entries(route.headers ?? {})) {
+          const rendered = await renderTemplate(
+            value,
+            context,
+            this.db,
+            this.config
+          );
+          c.header(name, String(rendered ?? ""));
+        }
+
+        const status = (route.status ?? 200) as ContentfulStatusCode;
+        if (route.body === undefined) {
+          return c.body(null, status);
+        }
+
+        const body = await renderTemplate(
+          route.body,
+          context,
+          this.db,
+          this.config
+        );
+        return c.json(body, status);
+      });
+    }
+  }
+
+  /**
+   * Reads the request body as JSON for a custom route, without rejecting other bodies.
+   *
+   * @param c - The Hono request context.
+   * @returns The parsed body, or undefined if it is empty or not JSON.
+   */
+  private async readOptionalJson(c: Context): Promise<unknown> {
+    const text = await c.req.text();
+    if (!text) return undefined;
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Registers `GET` and `POST /graphql`, executing against the same database as the REST routes.
+   * POST takes a JSON body of `{ query, variables, operationName }`; GET takes them as query parameters.
+   *
+   * @param app - The Hono app to register the route on.
+   */
+  private generateGraphQLRoute(app: Hono) {
+    const schema = buildGraphQLSchema(this.db, this.config);
+
+    const execute = async (c: Context, input: Record<string, unknown>) => {
+      const request = this.parseGraphQLRequest(input);
+      const result = await graphql({
+        schema,
+        source: request.query,
+        variableValues: request.variables,
+        operationName: request.operationName,
+        contextValue: { request: c.req.raw } satisfies GraphQLContext,
+      });
+      // Syntax and validation errors never reach execution, so there is no data
+      return c.json(result, "data" in result ? 200 : 400);
+    };
+
+    app.post("/graphql", async (c) => {
+      const body = await this.parseJson(c);
+      if (!isPlainObject(body)) {
+        return c.json(
+          { errors: [{ message: "Body must be a JSON object" }] },
+          400
+        );
+      }
+      return execute(c, body);
+    });
+
+    app.get("/graphql", async (c) => {
+      const { query, variables, operationName } = c.req.query();
+      let parsed: unknown;
+      try {
+        parsed = variables ? JSON.parse(variables) : undefined;
+      } catch {
+        return c.json({ errors: [{ message: "Invalid variables" }] }, 400);
+      }
+      return execute(c, { query, variables: parsed, operationName });
+    });
+  }
+
+  /**
+   * Checks the fields of a GraphQL request.
+   *
+   * @param input - The POST body, or the parsed GET parameters.
+   * @returns The typed request.
+   * @throws {HTTPException} 400 with a GraphQL error if a field is missing or has the wrong type.
+   */
+  private parseGraphQLRequest(input: Record<string, unknown>): GraphQLRequest {
+    const { query, variables, operationName } = input;
+    const invalid = (message: string) =>
+      httpError(400, { errors: [{ message }] });
+
+    if (typeof query !== "string" || query.trim() === "") {
+      throw invalid("Missing query");
+    }
+    if (
+      variables !== undefined &&
+      variables !== null &&
+      !isPlainObject(variables)
+    ) {
+      throw invalid('"variables" must be an object');
+    }
+    if (
+      operationName !== undefined &&
+      operationName !== null &&
+      typeof operationName !== "string"
+    ) {
+      throw invalid('"operationName" must be a string');
+    }
+
+    return {
+      query,
+      variables: variables ?? undefined,
+      operationName: operationName ?? undefined,
+    };
   }
 
   /**
    * Transforms database results to match the desired output format.
-   * Specifically handles boolean conversion from 0/1 to true/false.
+   * Converts stored values back to their field types (e.g., 0/1 to booleans, JSON text to objects),
+   * including the rows of included relations.
    *
    * @param tableName - The name of the table the data belongs to.
    * @param data - The data returned from the database.
+   * @param includes - The included relations embedded in the data.
    * @returns The transformed data.
    */
-  private transformResult<T>(tableName: string, data: T | T[]) {
-    const tableDef = this.config.schema.find((t) => t.table === tableName);
-    if (!tableDef) return data;
-
-    const booleanFields = Object.entries(tableDef.fields)
-      .filter(([_, def]) => {
-        // Check for string config "faker.datatype.boolean"
-        if (typeof def === "string" && def.includes("boolean")) return true;
-        // Check for object config { type: "boolean" } (future-proofing)
-        if (typeof def === "object" && def.type && def.type.includes("boolean"))
-          return true;
-        return false;
-      })
-      .map(([key]) => key);
+  private transformResult<T>(
+    tableName: string,
+    data: T | T[],
+    includes: IncludeNode[] = []
+  ): T | T[] {
+    return fromStorageResult(this.config, tableName, data, includes) as T | T[];
+  }
 
-    if (booleanFields.length === 0) return data;
+  /**
+   * Reads the JSON request body and validates it against the table schema.
+   *
+   * @param c - The Hono request context.
+   * @param table - The table definition.
+   * @param options - Set `partial` when omitted fields are left untouched.
+   * @returns The validated body.
+   * @throws {HTTPException} 400 for malformed JSON, 422 with per-field errors for invalid bodies.
+   */
+  private async readBody(
+    c: Context,
+    table: TableSchema,
+    options: { partial?: boolean } = {}
+  ) {
+    const body = await this.parseJson(c);
+    await this.assertValid(table, body, options);
+    return body as Record<string, unknown>;
+  }
 
-    const transformItem = (item: any) => {
-      if (!item) return item;
-      const newItem = { ...item };
+  /**
+   * Parses the JSON request body.
+   *
+   * @param c - The Hono request context.
+   * @returns The parsed body.
+   * @throws {HTTPException} 400 if the body is not valid JSON.
+   */
+  private async parseJson(c: Context): Promise<unknown> {
+    try {
+      return await c.req.json();
+    } catch {
+      throw httpError(400, { error: "Invalid JSON body" });
+    }
+  }
 
-      for (const field of booleanFields) {
-        if (newItem[field] !== undefined) {
-          newItem[field] = Number(newItem[field]) === 1;
-        }
-      }
-      return newItem;
+  /**
+   * Validates a body against the table schema.
+   *
+   * @param table - The table definition.
+   * @param body - The body to validate.
+   * @param options - Set `partial` when omitted fields are left untouched.
+   * @throws {HTTPException} 422 with per-field errors for invalid bodies.
+   */
+  private async assertValid(
+    table: TableSchema,
+    body: unknown,
+    options: { partial?: boolean } = {}
+  ) {
+    const errors = await validatePayload(this.db, table, body, options);
+    if (errors.length > 0) {
+      throw httpError(422, { error: "Validation failed", errors });
+    }
+  }
+
+  /**
+   * Reads a single row by ID, transformed for the API.
+   *
+   * @param tableName - The table to read from.
+   * @param id - The row ID.
+   * @returns The row, or undefined if it does not exist.
+   */
+  private async findRow(tableName: string, id: unknown) {
+    const row = await this.db
+      .selectFrom(tableName)
+      .selectAll()
+      .where("id", "=", id)
+      .executeTakeFirst();
+
+    return row ? this.transformResult(tableName, row) : undefined;
+  }
+
+  /**
+   * Responds with a single row after running the table's `afterRead` hook.
+   *
+   * @param c - The Hono request context.
+   * @param table - The table definition.
+   * @param row - The row, transformed for the API.
+   * @param status - The response status.
+   * @returns The JSON response, or the response returned by the hook.
+   */
+  private async sendRow(
+    c: Context,
+    table: TableSchema,
+    row: Record<string, unknown> | undefined,
+    status: ContentfulStatusCode = 200
+  ) {
+    const result = await runAfterRead(
+      table.hooks,
+      row ? [row] : [],
+      this.hookContext(c, table)
+    );
+    if (result instanceof Response) return result;
+    return c.json(result[0] ?? null, status);
+  }
+
+  /**
+   * Describes the current request to a table hook.
+   *
+   * @param c - The Hono request context.
+   * @param table - The table definition.
+   * @returns The hook context.
+   */
+  private hookContext(c: Context, table: TableSchema): HookContext {
+    return {
+      table: table.table,
+      request: c.req.raw,
+      params: c.req.param(),
+      query: c.req.query(),
+      db: this.db,
     };
+  }
+
+  /**
+   * Writes the given fields to an existing row and responds with the stored row.
+   * The table's `beforeUpdate` hook runs first.
+   *
+   * @param c - The Hono request context.
+   * @param table - The table definition.
+   * @param id - The row ID.
+   * @param row - The field values to write.
+   * @returns The JSON response (404 if the row does not exist).
+   */
+  private async updateRow(
+    c: Context,
+    table: TableSchema,
+    id: string,
+    row: Record<string, unknown>
+  ) {
+    const next = await runRowHook(
+      table.hooks,
+      "beforeUpdate",
+      row,
+      this.hookContext(c, table)
+    );
+    if (next instanceof Response) return next;
 
-    if (Array.isArray(data)) {
-      return data.map(transformItem);
+    try {
+      const result = await this.db
+        .updateTable(table.table)
+        .set(toStorageRow(table, next))
+        .where("id", "=", id)
+        .executeTakeFirst();
+
+      if (Number(result.numUpdatedRows) === 0) {
+        return c.json({ error: "Not Found" }, 404);
+      }
+
+      return this.sendRow(c, table, await this.findRow(table.table, id));
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      return c.json({ error: errorMessage }, 400);
     }
-    return transformItem(data);
   }
 
   /**
    * Generates API routes for all tables defined in the configuration.
-   * Creates GET (list & detail), POST, PUT, and DELETE endpoints.
+   * Creates GET (list & detail), POST, PUT, PATCH, and DELETE endpoints.
+   *
+   * @param app - The Hono app to register the routes on.
    */
-  private generateRoutes() {
-    this.app.get("/", (c) =>
+  private generateRoutes(app: Hono) {
+    app.get("/", (c) =>
       c.json({
         message: "MockLite is running!",
         endpoints: this.config.schema.map((t) => `/${t.table}`),
@@ -141,145 +575,139 @@ export class MockServer {
     for (const table of this.config.schema) {
       const tableName = table.table;
 
-      this.app.get(`/${tableName}`, async (c) => {
-        const queryParams = c.req.query();
-        const { include, page, limit, ...filters } = queryParams;
-
-        const includeParam = include;
-        const pageNum = Number(page) || 1;
-        const limitNum = Number(limit) || 10;
-        const offset = (pageNum - 1) * limitNum;
-
-        let countQuery = this.db
-          .selectFrom(tableName)
-          .select((eb: any) => eb.fn.countAll().as("total"));
-
-        let dataQuery = this.db.selectFrom(tableName).selectAll();
-
-        // APPLY FILTERS
-        for (const [key, value] of Object.entries(filters)) {
-          const fieldDef = table.fields[key];
-          const isId = key === "id";
-
-          if ((fieldDef || isId) && value !== undefined) {
-            let op = "=";
-            let val: unknown = value;
-
-            if (!isId) {
-              const isString =
-                typeof fieldDef === "string" &&
-                !fieldDef.includes("boolean") &&
-                !fieldDef.includes("number") &&
-                !fieldDef.includes("int");
-
-              if (isString) {
-                op = "like";
-                val = `%${value}%`;
-              }
-            }
-
-            countQuery = countQuery.where(key, op as any, val);
-            dataQuery = dataQuery.where(key, op as any, val);
-          }
+      const { onRequest } = table.hooks ?? {};
+      if (onRequest) {
+        // Exact patterns, so path parameters are available to the hook
+        const paths = [`/${tableName}`, `/${tableName}/:id`];
+        if (this.declaredRelations(table).length > 0) {
+          paths.push(`/${tableName}/:id/:relation`);
         }
-
-        const countResult = await countQuery.executeTakeFirst();
-        const total = Number((countResult as any)?.total || 0);
-
-        // RELATIONAL LOGIC HANDLING
-        if (includeParam) {
-          dataQuery = this.applyRelation(
-            dataQuery,
-            tableName,
-            includeParam as string
-          );
+        for (const path of paths) {
+          app.use(path, async (c, next) => {
+            const response = await onRequest(this.hookContext(c, table));
+            if (response) return response;
+            await next();
+          });
         }
+      }
 
-        dataQuery = dataQuery.limit(limitNum).offset(offset);
+      app.get(`/${tableName}`, (c) => this.listRows(c, table));
 
-        const data = await dataQuery.execute();
+      app.get(`/${tableName}/:id`, async (c) => {
+        const id = c.req.param("id");
+        const includes = parseIncludes(
+          this.config,
+          tableName,
+          c.req.query("include")
+        );
+        const selection = parseFields(
+          this.config,
+          table,
+          c.req.query("fields")
+        );
+
+        let query = selectColumns(this.db, tableName, selection.fields).where(
+          `${tableName}.id`,
+          "=",
+          id
+        );
+
+        query = applyIncludes(
+          query,
+          this.config,
+          tableName,
+          includes,
+          selection.relations
+        );
 
-        return c.json({
-          data: this.transformResult(tableName, data),
-          meta: {
-            total,
-            page: pageNum,
-            limit: limitNum,
-            totalPages: Math.ceil(total / limitNum),
-          },
-        });
+        const data = await query.executeTakeFirst();
+        if (!data) return c.json({ error: "Not Found" }, 404);
+        return this.sendRow(
+          c,
+          table,
+          this.transformResult(tableName, data, includes)
+        );
       });
 
-      this.app.get(`/${tableName}/:id`, async (c) => {
-        const id = c.req.param("id");
-        const includeParam = c.req.query("include");
-
-        let query = this.db
-          .selectFrom(tableName)
-          .selectAll()
-          .where("id", "=", id);
+      app.post(`/${tableName}`, async (c) => {
+        const body = await this.readBody(c, table);
+        return this.insertRow(c, table, body);
+      });
 
-        if (includeParam) {
-          query = this.applyRelation(query, tableName, includeParam);
+      // PUT replaces the whole row: omitted fields are reset to their default (or null)
+      app.put(`/${tableName}/:id`, async (c) => {
+        const id = c.req.param("id");
+        const body = await this.readBody(c, table);
+
+        const row: Record<string, unknown> = {};
+        for (const [field, def] of Object.entries(table.fields)) {
+          if (def === "pk") continue;
+          row[field] =
+            body[field] !== undefined
+              ? body[field]
+              : typeof def === "object"
+              ? def.default ?? null
+              : null;
         }
 
-        const data = await query.executeTakeFirst();
-        if (!data) return c.json({ error: "Not Found" }, 404);
-        return c.json(this.transformResult(tableName, data));
+        return this.updateRow(c, table, id, row);
       });
 
-      this.app.post(`/${tableName}`, async (c) => {
-        const body = await c.req.json();
+      // PATCH applies a JSON Merge Patch, or a JSON Patch for application/json-patch+json
+      app.patch(`/${tableName}/:id`, async (c) => {
+        const id = c.req.param("id");
+        const patch = await this.parseJson(c);
 
-        try {
-          const result = await this.db
-            .insertInto(tableName)
-            .values(body)
-            .executeTakeFirst();
+        const current = await this.findRow(tableName, id);
+        if (!current) return c.json({ error: "Not Found" }, 404);
 
-          return c.json(
-            this.transformResult(tableName, {
-              id: result.insertId?.toString(),
-              ...body,
-            }),
-            201
-          );
-        } catch (error: unknown) {
-          const errorMessage =
-            error instanceof Error ? error.message : "Unknown error";
-          return c.json({ error: errorMessage }, 400);
+        // The id is part of the document, so a patch can test it but not change it
+        const doc: Record<string, unknown> = {};
+        for (const field of Object.keys(table.fields)) {
+          doc[field] = current[field];
         }
-      });
 
-      this.app.put(`/${tableName}/:id`, async (c) => {
-        const id = c.req.param("id");
-        const body = await c.req.json();
+        const isJsonPatch = c.req
+          .header("content-type")
+          ?.includes("application/json-patch+json");
 
+        let patched: Record<string, unknown>;
         try {
-          const result = await this.db
-            .updateTable(tableName)
-            .set(body)
-            .where("id", "=", id)
-            .executeTakeFirst();
-
-          if (Number(result.numUpdatedRows) === 0) {
-            return c.json({ error: "Not Found" }, 404);
+          patched = isJsonPatch
+            ? applyJsonPatch(doc, patch)
+            : applyMergePatch(doc, patch);
+        } catch (error: unknown) {
+          if (error instanceof PatchError) {
+            return c.json({ error: error.message }, error.status);
           }
+          throw error;
+        }
 
-          return c.json(
-            this.transformResult(tableName, {
-              id,
-              ...body,
-            })
-          );
-        } catch (error: unknown) {
-          const errorMessage =
-            error instanceof Error ? error.message : "Unknown error";
-          return c.json({ error: errorMessage }, 400);
+        const row: Record<string, unknown> = { ...patched };
+        for (const [field, def] of Object.entries(table.fields)) {
+          if (def === "pk") {
+            if (patched[field] !== current[field]) {
+              return c.json(
+                {
+                  error: "Validation failed",
+                  errors: [{ field, message: "The id cannot be changed" }],
+                },
+                422
+              );
+            }
+            delete row[field];
+          } else {
+            // Fields removed by the patch are cleared
+            row[field] = patched[field] ?? null;
+          }
         }
+
+        await this.assertValid(table, row);
+
+        return this.updateRow(c, table, id, row);
       });
 
-      this.app.delete(`/${tableName}/:id`, async (c) => {
+      app.delete(`/${tableName}/:id`, async (c) => {
         const id = c.req.param("id");
 
         try {
@@ -296,111 +724,239 @@ export class MockServer {
         } catch (error: unknown) {
           const errorMessage =
             error instanceof Error ? error.message : "Unknown error";
-          return c.json({ error: errorMessage }, 400);
+          // Rows still referenced through an onDelete "restrict" relation
+          const status = errorMessage.includes("FOREIGN KEY") ? 409 : 400;
+          return c.json({ error: errorMessage }, status);
         }
       });
+
+      for (const relation of this.declaredRelations(table)) {
+        this.generateNestedRoutes(app, table, relation);
+      }
     }
   }
 
   /**
-   * Applies relationship joins (BelongsTo or HasMany) to the query based on the 'include' parameter.
+   * Lists the resolved relations a table declares in its `relations` block.
    *
-   * @param query - The current Kysely query builder.
-   * @param currentTable - The name of the current table being queried.
-   * @param targetParam - The 'include' parameter value (target resource).
-   * @returns The updated query builder with the relationship included.
+   * @param table - The table definition.
+   * @returns The declared relations.
    */
-  private applyRelation(
-    query: SelectQueryBuilder<
-      any,
-      string,
-      {
-        [x: string]: any;
-      }
-    >,
-    currentTable: string,
-    targetParam: string
+  private declaredRelations(table: TableSchema) {
+    const names = (table.relations ?? []).map((r) => r.name);
+    return getRelations(this.config, table.table).filter((r) =>
+      names.includes(r.name)
+    );
+  }
+
+  /**
+   * Registers nested routes for a declared relation, e.g. `GET /users/:id/posts`.
+   * To-one relations return a single row; to-many relations are listed like `GET /<table>`
+   * and accept `POST` to create a row linked to the parent.
+   *
+   * @param app - The Hono app to register the routes on.
+   * @param table - The parent table definition.
+   * @param relation - The relation to expose.
+   */
+  private generateNestedRoutes(
+    app: Hono,
+    table: TableSchema,
+    relation: Relation
   ) {
-    const getColumns = (tableName: string) => {
-      const tableDef = this.config.schema.find((t) => t.table === tableName);
-      return tableDef ? Object.keys(tableDef.fields) : [];
-    };
+    const related = findTable(this.config, relation.table)!;
+    const path = `/${table.table}/:id/${relation.name}`;
+
+    if (relation.kind === "belongsTo" || relation.kind === "hasOne") {
+      app.get(path, async (c) => {
+        const key = await this.findParentKey(table, relation, c);
+        const row = await this.db
+          .selectFrom(related.table)
+          .selectAll()
+          .where(relation.foreignKey, "=", key)
+          .executeTakeFirst();
+
+        if (!row) return c.json({ error: "Not Found" }, 404);
+        return this.sendRow(
+          c,
+          related,
+          this.transformResult(related.table, row)
+        );
+      });
+    } else {
+      app.get(path, async (c) => {
+        const key = await this.findParentKey(table, relation, c);
+        return this.listRows(c, related, relationScope(this.db, relation, key));
+      });
+    }
 
-    const currentTableConfig = this.config.schema.find(
-      (t) => t.table === currentTable
-    );
+    if (relation.kind === "belongsTo") return;
+
+    app.post(path, async (c) => {
+      const key = await this.findParentKey(table, relation, c);
+      const { through } = relation;
+
+      if (!through) {
+        // The FK always points at the parent from the URL
+        const raw = await this.parseJson(c);
+        const body =
+          typeof raw === "object" && raw !== null && !Array.isArray(raw)
+            ? { ...raw, [relation.foreignKey]: key }
+            : raw;
+        await this.assertValid(related, body);
+        return this.insertRow(c, related, body as Record<string, unknown>);
+      }
 
-    if (currentTableConfig) {
-      for (const [field, def] of Object.entries(currentTableConfig.fields)) {
-        if (typeof def === "string" && def.startsWith("fk:")) {
-          const targetTable = def.split(":")[1]?.split(".")[0];
-          const fieldBaseName = field.replace("Id", "");
+      const body = await runRowHook(
+        related.hooks,
+        "beforeCreate",
+        await this.readBody(c, related),
+        this.hookContext(c, related)
+      );
+      if (body instanceof Response) return body;
 
-          if (targetParam === targetTable || targetParam === fieldBaseName) {
-            console.log(
-              pc.dim(
-                `   🔗 Linking ${currentTable} -> ${targetTable} (BelongsTo)`
-              )
-            );
+      try {
+        const id = await this.db.transaction().execute(async (trx) => {
+          const result = await trx
+            .insertInto(related.table)
+            .values(toStorageRow(related, body))
+            .executeTakeFirst();
+          const id = Number(result.insertId);
 
-            if (!targetTable) {
-              throw new Error(`Invalid FK definition: ${def}`);
-            }
+          const row = await trx
+            .selectFrom(related.table)
+            .select(relation.foreignKey)
+            .where("id", "=", id)
+            .executeTakeFirstOrThrow();
 
-            const columns = getColumns(targetTable);
-
-            return query.select((eb: any) => [
-              jsonObjectFrom(
-                eb
-                  .selectFrom(targetTable)
-                  .select(columns) // Select specific column array
-                  .whereRef(
-                    `${targetTable}.id`,
-                    "=",
-                    `${currentTable}.${field}`
-                  )
-              ).as(targetParam),
-            ]);
-          }
-        }
+          await trx
+            .insertInto(through.table)
+            .values({
+              [through.sourceKey]: key,
+              [through.targetKey]: row[relation.foreignKey],
+            })
+            .execute();
+          return id;
+        });
+
+        return this.sendRow(
+          c,
+          related,
+          await this.findRow(related.table, id),
+          201
+        );
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        return c.json({ error: errorMessage }, 400);
       }
+    });
+  }
+
+  /**
+   * Reads the parent row from a nested route and returns its key for the relation.
+   *
+   * @param table - The parent table definition.
+   * @param relation - The relation being traversed.
+   * @param c - The Hono request context.
+   * @returns The value of the relation's local key on the parent row.
+   * @throws {HTTPException} 404 if the parent does not exist or the key is null.
+   */
+  private async findParentKey(
+    table: TableSchema,
+    relation: Relation,
+    c: Context
+  ) {
+    const parent = await this.db
+      .selectFrom(table.table)
+      .select(relation.localKey)
+      .where("id", "=", c.req.param("id"))
+      .executeTakeFirst();
+
+    const key = parent?.[relation.localKey];
+    if (key === undefined || key === null) {
+      throw httpError(404, { error: "Not Found" });
     }
+    return key;
+  }
 
-    const targetTableConfig = this.config.schema.find(
-      (t) => t.table === targetParam
+  /**
+   * Inserts a validated row and responds with the stored row.
+   * The table's `beforeCreate` hook runs first.
+   *
+   * @param c - The Hono request context.
+   * @param table - The table definition.
+   * @param body - The validated request body.
+   * @returns The JSON response (201, or 400 if the database rejects the row).
+   */
+  private async insertRow(
+    c: Context,
+    table: TableSchema,
+    body: Record<string, unknown>
+  ) {
+    const row = await runRowHook(
+      table.hooks,
+      "beforeCreate",
+      body,
+      this.hookContext(c, table)
     );
-    if (targetTableConfig) {
-      for (const [field, def] of Object.entries(targetTableConfig.fields)) {
-        if (typeof def === "string" && def.startsWith("fk:")) {
-          const pointedTable = def.split(":")[1]?.split(".")[0];
+    if (row instanceof Response) return row;
+
+    try {
+      const result = await this.db
+        .insertInto(table.table)
+        .values(toStorageRow(table, row))
+        .executeTakeFirst();
+
+      return this.sendRow(
+        c,
+        table,
+        await this.findRow(table.table, Number(result.insertId)),
+        201
+      );
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      return c.json({ error: errorMessage }, 400);
+    }
+  }
 
-          if (pointedTable === currentTable) {
-            console.log(
-              pc.dim(
-                `   🔗 Linking ${currentTable} -> ${targetParam} (HasMany)`
-              )
-            );
+  /**
+   * Handles `GET /<table>`: filters, search, sorting, sparse fieldsets and includes,
+   * with offset (`page`/`limit`) or cursor (`after`/`first`) pagination.
+   * The response shape follows the table's pagination options.
+   *
+   * @param c - The Hono request context.
+   * @param table - The table definition.
+   * @param scope - Extra restriction applied to both the count and data queries (used by nested routes).
+   * @returns The JSON response.
+   */
+  private async listRows(c: Context, table: TableSchema, scope?: QueryScope) {
+    const { rows, includes, total, meta, links, options } = await queryList(
+      this.db,
+      this.config,
+      table,
+      c.req.query(),
+      scope
+    );
 
-            const columns = getColumns(targetParam);
-
-            return query.select((eb: any) => [
-              jsonArrayFrom(
-                eb
-                  .selectFrom(targetParam)
-                  .select(columns)
-                  .whereRef(
-                    `${targetParam}.${field}`,
-                    "=",
-                    `${currentTable}.id`
-                  )
-              ).as(targetParam),
-            ]);
-          }
-        }
-      }
+    if (options.totalHeader) {
+      c.header("X-Total-Count", String(total));
+    }
+    if (options.linkHeader) {
+      c.header("Link", buildLinkHeader(c.req.url, links));
     }
 
-    return query;
+    const data = this.transformResult(table.table, rows, includes);
+    const result = await runAfterRead(
+      table.hooks,
+      data as HookRow[],
+      this.hookContext(c, table)
+    );
+    if (result instanceof Response) return result;
+
+    return options.envelope === "array"
+      ? c.json(result)
+      : c.json({ data: result, meta });
   }
 
   /**
@@ -410,8 +966,11 @@ export class MockServer {
    * @param port - The port number to listen on.
    */
   start(port: number) {
+    this.port = port;
+
+    // Delegate to the current app so reload() can swap routes while listening
     serve({
-      fetch: this.app.fetch,
+      fetch: (request, env) => this.app.fetch(request, env),
       port: port,
     });
 
@@ -435,10 +994,25 @@ export class MockServer {
       )
     );
     console.log(pc.dim(`Server running at http://localhost:${port}`));
+    console.log(pc.dim(`API docs at http://localhost:${port}/docs`));
+    if (this.config.graphql) {
+      console.log(pc.dim(`GraphQL at http://localhost:${port}/graphql`));
+    }
+    console.log(
+      pc.dim(
+        `Admin API at http://localhost:${port}${ADMIN_PREFIX}` +
+          (this.config.adminToken ? " (token required)" : "")
+      )
+    );
+    if (this.activeScenario) {
+      console.log(pc.magenta(`🎬 Scenario: ${this.activeScenario}`));
+    }
 
     // Network Status
-    if (this.config.delay || this.config.errorRate) {
+    if (this.config.delay || this.config.errorRate || this.config.network) {
       const status = [];
+      const rules = this.config.network?.length ?? 0;
+      if (rules) status.push(`${rules} rule${rules === 1 ? "" : "s"}`);
       if (this.config.delay) status.push(`Delay: ${this.config.delay}ms`);
       if (this.config.errorRate)
         status.push(`Chaos: ${this.config.errorRate * 100}%`);
@@ -451,10 +1025,14 @@ export class MockServer {
       style: { head: [], border: [] }, // Minimalist style
     });
 
+    for (const route of this.config.routes ?? []) {
+      table.push([route.method ?? "GET", route.path, pc.dim("custom")]);
+    }
+
     // Loop config untuk isi tabel
     this.config.schema.forEach((t) => {
-      const relations = Object.values(t.fields).filter(
-        (f) => typeof f === "string" && f.startsWith("fk:")
+      const relations = Object.values(t.fields).filter((f) =>
+        parseForeignKey(f)
       ).length;
 
       const features = [];
@@ -464,20 +1042,48 @@ export class MockServer {
       // Push row ke tabel
       table.push(
         ["GET, POST", `/${t.table}`, pc.dim(features.join(", "))],
-        [pc.dim("GET, PUT, DEL"), pc.dim(`/${t.table}/:id`), ""]
+        [pc.dim("GET, PUT, PATCH, DEL"), pc.dim(`/${t.table}/:id`), ""]
       );
+
+      for (const relation of this.declaredRelations(t)) {
+        const methods = relation.kind === "belongsTo" ? "GET" : "GET, POST";
+        table.push([
+          pc.dim(methods),
+          pc.dim(`/${t.table}/:id/${relation.name}`),
+          pc.dim(relation.kind),
+        ]);
+      }
     });
 
     console.log(table.toString());
     console.log(pc.dim("\nShortcuts:"));
     console.log(
       `  ${pc.bold("s")} ${pc.dim("seed")}   ` +
+        (this.scenarioNames().length > 0
+          ? `  ${pc.bold("p")} ${pc.dim("scenario")}   `
+          : "") +
         `  ${pc.bold("c")} ${pc.dim("clear")}   ` +
         `  ${pc.bold("q")} ${pc.dim("quit")}`
     );
     console.log(pc.dim("--------------------------------------------------"));
   }
 
+  /**
+   * Seeds the database for a scenario from an interactive shortcut.
+   * A failure (e.g., a fixture referencing an unknown key) is logged, so the server keeps running.
+   *
+   * @param name - The scenario to apply; omit for the tables' own `seed`.
+   */
+  private async reseedFromPrompt(name?: string) {
+    try {
+      await this.useScenario(name);
+    } catch (error) {
+      console.error(pc.red("❌ Seeding failed:"));
+      console.error(error);
+    }
+    console.log(pc.dim("--------------------------------------------------"));
+  }
+
   /**
    * Sets up interactive CLI mode for controlling the server (re-seed, clear, quit).
    *
@@ -498,20 +1104,47 @@ export class MockServer {
           process.exit(0);
         }
 
+        // A digit after p picks a scenario
+        if (this.choosingScenario) {
+          this.choosingScenario = false;
+          const names = this.scenarioNames();
+          const choice = Number(char);
+          if (/^[0-9]$/.test(char) && choice <= names.length) {
+            const name = choice === 0 ? undefined : names[choice - 1];
+            console.log(
+              pc.cyan(`\n🎬 Switching to ${name ?? "default seed"}...`)
+            );
+            await this.reseedFromPrompt(name);
+          } else {
+            console.log(pc.dim("Cancelled."));
+          }
+          return;
+        }
+
         // c to clear
         if (char === "c") {
           this.printBanner(port);
         }
 
-        // s to re-seed
+        // s to re-seed, keeping the active scenario
         if (char === "s") {
           console.log(pc.cyan("\n🔄 Re-seeding database..."));
-          const seeder = new Seeder(this.db);
-          await seeder.clear(this.config);
-          await seeder.run(this.config);
+          await this.reseedFromPrompt(this.activeScenario);
+        }
+
+        // p to pick a scenario
+        if (char === "p" && this.scenarioNames().length > 0) {
+          console.log(pc.cyan("\n🎬 Scenarios:"));
+          console.log(`  ${pc.bold("0")} ${pc.dim("default seed")}`);
+          this.scenarioNames().forEach((name, index) => {
+            const active =
+              name === this.activeScenario ? pc.green(" (active)") : "";
+            console.log(`  ${pc.bold(String(index + 1))} ${name}${active}`);
+          });
           console.log(
-            pc.dim("--------------------------------------------------")
+            pc.dim("Press a number to switch, any other key to cancel.")
           );
+          this.choosingScenario = true;
         }
       });
     }
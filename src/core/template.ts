@@ -0,0 +1,147 @@
+import type { Kysely } from "kysely";
+import { resolveFakerPath } from "./fields";
+import { fromStorageResult } from "./include";
+import { queryList } from "./list";
+import { findTable } from "./relations";
+import type { MockliteConfig } from "./types";
+
+/**
+ * The request data a template can reference.
+ */
+export interface TemplateContext {
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Matches a `{{ expression }}` placeholder.
+ */
+export const EXPRESSION = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+/**
+ * The roots an expression can start from.
+ */
+export const EXPRESSION_ROOTS = ["params", "query", "body", "faker"];
+
+/**
+ * Keys that turn an object into a database lookup, e.g. `{ "$first": "users", "query": { "email_eq": "{{body.email}}" } }`.
+ * `$first` returns a row (or null), `$list` a page of rows and `$count` the number of matching rows.
+ */
+export const LOOKUP_KEYS = ["$first", "$list", "$count"] as const;
+
+type LookupKey = (typeof LOOKUP_KEYS)[number];
+
+/**
+ * Renders a response template.
+ * A string that is a single `{{ }}` expression is replaced by the value itself (keeping objects and numbers);
+ * otherwise expressions are interpolated as text. Lookup objects are replaced by rows queried
+ * with the list query parameters in `query` (filters, `sort`, `include`, `limit`).
+ *
+ * @param template - The template value.
+ * @param context - The request data.
+ * @param db - The Kysely database instance.
+ * @param config - The Mocklite configuration object.
+ * @returns The rendered value.
+ * @throws {QueryError} If a lookup's query parameters are invalid.
+ */
+export async function renderTemplate(
+  template: unknown,
+  context: TemplateContext,
+  db: Kysely<any>,
+  config: MockliteConfig
+): Promise<unknown> {
+  if (typeof template === "string") {
+    return renderString(template, context);
+  }
+
+  if (Array.isArray(template)) {
+    return Promise.all(
+      template.map((item) => renderTemplate(item, context, db, config))
+    );
+  }
+
+  if (typeof template !== "object" || template === null) return template;
+
+  const object = template as Record<string, unknown>;
+  const key = LOOKUP_KEYS.find((k) => k in object);
+  if (key) {
+    const query = await renderTemplate(object.query ?? {}, context, db, config);
+    return lookup(key, object[key] as string, query as object, db, config);
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(object)) {
+    result[name] = await renderTemplate(value, context, db, config);
+  }
+  return result;
+}
+
+function renderString(template: string, context: TemplateContext) {
+  const whole = template.match(/^\{\{\s*([^{}]*?)\s*\}\}$/);
+  if (whole) return evaluate(whole[1]!, context) ?? null;
+
+  return template.replace(EXPRESSION, (_, expression: string) => {
+    const value = evaluate(expression, context);
+    if (value === undefined || value === null) return "";
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  });
+}
+
+/**
+ * Evaluates an expression: a dotted path into the request data, or a Faker path.
+ *
+ * @returns The value, or undefined if the path does not exist.
+ */
+function evaluate(expression: string, context: TemplateContext): unknown {
+  const [root, ...segments] = expression.split(".");
+
+  if (root === "faker") {
+    return resolveFakerPath(expression)?.();
+  }
+
+  let value: unknown = context[root as keyof TemplateContext];
+  for (const segment of segments) {
+    if (typeof value !== "object" || value === null) return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+/**
+ * Runs a lookup through the same code path as `GET /<table>`.
+ * Missing values become empty strings, so a filter on an absent body field matches nothing.
+ */
+async function lookup(
+  key: LookupKey,
+  tableName: string,
+  query: object,
+  db: Kysely<any>,
+  config: MockliteConfig
+) {
+  const table = findTable(config, tableName);
+  if (!table) return null;
+
+  const params: Record<string, string> = {};
+  for (const [name, value] of Object.entries(query)) {
+    params[name] =
+      value === null || value === undefined
+        ? ""
+        : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  }
+  if (key !== "$list") {
+    // Offset pagination with a single row; only the first row or the total is needed
+    delete params.after;
+    delete params.first;
+    params.page = "1";
+    params.limit = "1";
+  }
+
+  const { rows, includes, total } = await queryList(db, config, table, params);
+  if (key === "$count") return total;
+
+  const result = fromStorageResult(config, tableName, rows, includes);
+  return key === "$first" ? (result as unknown[])[0] ?? null : result;
+}
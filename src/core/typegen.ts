@@ -0,0 +1,271 @@
+import { resolveSqlType } from "./fields";
+import { typeName } from "./naming";
+import { resolvePagination } from "./pagination";
+import { isRequiredField } from "./payload";
+import { getRelations, type Relation } from "./relations";
+import type { FieldType, MockliteConfig, SqlType, TableSchema } from "./types";
+
+const TS_TYPES: Record<SqlType, string> = {
+  integer: "number",
+  real: "number",
+  text: "string",
+  boolean: "boolean",
+  json: "unknown",
+  // Serialized as ISO 8601 strings
+  datetime: "string",
+};
+
+const HEADER = `// Generated by mocklite from the mock schema. Do not edit by hand.
+`;
+
+const SHARED_TYPES = `
+/** Query parameters accepted by list endpoints. */
+export interface ListQuery {
+  page?: number;
+  limit?: number;
+  /** Page size for cursor pagination. */
+  first?: number;
+  /** Cursor from the previous page's \`meta.endCursor\`. */
+  after?: string;
+  /** Comma-separated fields; prefix with "-" for descending. */
+  sort?: string;
+  /** Comma-separated columns to return. */
+  fields?: string;
+  /** Search across all text columns. */
+  q?: string;
+  /** Comma-separated relations to embed; use dots for nested relations. */
+  include?: string;
+  /** Filters, e.g. \`role: "admin"\` or \`age_gte: 18\`. */
+  [filter: string]: string | number | boolean | undefined;
+}
+
+/** Query parameters accepted by single-row endpoints. */
+export interface GetQuery {
+  include?: string;
+  fields?: string;
+}
+
+export interface OffsetMeta {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface CursorMeta {
+  total: number;
+  limit: number;
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+/** The default list response envelope. */
+export interface ListResponse<T> {
+  data: T[];
+  meta: OffsetMeta | CursorMeta;
+}
+`;
+
+const CLIENT_RUNTIME = `
+/** Thrown by the client for non-2xx responses. */
+export class ApiError extends Error {
+  constructor(public readonly status: number, public readonly body: unknown) {
+    super(\`Request failed with status \${status}\`);
+    this.name = "ApiError";
+  }
+}
+
+type Query = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Creates a typed client for the mock server's CRUD routes.
+ *
+ * @param baseUrl - The server URL (e.g., "http://localhost:3000").
+ * @param init - Extra fetch options (e.g., headers) sent with every request.
+ */
+export function createClient(baseUrl: string, init: RequestInit = {}) {
+  async function request<T>(
+    method: string,
+    path: string,
+    query?: Query,
+    body?: unknown,
+    contentType = "application/json"
+  ): Promise<T> {
+    const url = new URL(path, baseUrl);
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== undefined) url.searchParams.set(key, String(value));
+    }
+
+    const res = await fetch(url, {
+      ...init,
+      method,
+      headers: {
+        ...(body !== undefined ? { "Content-Type": contentType } : {}),
+        ...init.headers,
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    const data = await res.json().catch(() => null);
+    if (!res.ok) throw new ApiError(res.status, data);
+    return data as T;
+  }
+`;
+
+/**
+ * Generates TypeScript declarations for the tables of a config:
+ * a row interface per table (with optional included relations), plus
+ * `Input` and `Patch` types for request bodies.
+ *
+ * @param config - The Mocklite configuration object.
+ * @param options - Set `client` to also emit a typed fetch client.
+ * @returns The TypeScript source.
+ */
+export function generateTypes(
+  config: MockliteConfig,
+  options: { client?: boolean } = {}
+) {
+  const parts = [HEADER, SHARED_TYPES];
+
+  for (const table of config.schema) {
+    parts.push(tableTypes(config, table));
+  }
+
+  if (options.client) {
+    parts.push(CLIENT_RUNTIME + clientResources(config) + "}\n");
+  }
+
+  return parts.join("");
+}
+
+/**
+ * Returns the TypeScript type of a field value.
+ *
+ * @param def - The field definition.
+ * @returns The type expression.
+ */
+function fieldType(def: FieldType) {
+  const base =
+    typeof def === "object" && def.type === "enum" && def.values
+      ? def.values.map((v) => JSON.stringify(v)).join(" | ")
+      : TS_TYPES[resolveSqlType(def)];
+
+  const nullable =
+    def !== "pk" && (typeof def !== "object" || def.nullable !== false);
+  return nullable ? `${base} | null` : base;
+}
+
+function tableTypes(config: MockliteConfig, table: TableSchema) {
+  const name = typeName(table.table);
+  const entries = Object.entries(table.fields);
+
+  const row = entries.map(([field, def]) => `  ${field}: ${fieldType(def)};`);
+  for (const relation of getRelations(config, table.table)) {
+    if (table.fields[relation.name] !== undefined) continue;
+    const target = typeName(relation.table);
+    const type = isToOne(relation) ? `${target} | null` : `${target}[]`;
+    row.push(
+      `  /** Included with \`?include=${relation.name}\`. */`,
+      `  ${relation.name}?: ${type};`
+    );
+  }
+
+  const input = entries
+    .filter(([, def]) => def !== "pk")
+    .map(([field, def]) => {
+      const optional = isRequiredField(def) ? "" : "?";
+      return `  ${field}${optional}: ${fieldType(def)};`;
+    });
+
+  const list =
+    resolvePagination(config, table).envelope === "array"
+      ? `${name}[]`
+      : `ListResponse<${name}>`;
+
+  return `
+/** A row of the \`${table.table}\` table. */
+export interface ${name} {
+${row.join("\n")}
+}
+
+/** Body for creating or replacing a ${name}. */
+export interface ${name}Input {
+${input.join("\n")}
+}
+
+/** Body for a merge-patch update of a ${name}. */
+export type ${name}Patch = Partial<${name}Input>;
+
+/** Response of \`GET /${table.table}\`. */
+export type ${name}List = ${list};
+`;
+}
+
+function clientResources(config: MockliteConfig) {
+  const resources = config.schema.map((table) => {
+    const name = typeName(table.table);
+    const base = `/${table.table}`;
+
+    const methods = [
+      `list: (query?: ListQuery) => request<${name}List>("GET", "${base}", query),`,
+      `get: (id: number, query?: GetQuery) => request<${name}>("GET", \`${base}/\${id}\`, { ...query }),`,
+      `create: (body: ${name}Input) => request<${name}>("POST", "${base}", undefined, body),`,
+      `replace: (id: number, body: ${name}Input) => request<${name}>("PUT", \`${base}/\${id}\`, undefined, body),`,
+      `update: (id: number, body: ${name}Patch) => request<${name}>("PATCH", \`${base}/\${id}\`, undefined, body, "application/merge-patch+json"),`,
+      `delete: (id: number) => request<{ message: string }>("DELETE", \`${base}/\${id}\`),`,
+    ];
+
+    // Nested routes exist for declared relations only
+    const declared = (table.relations ?? []).map((r) => r.name);
+    for (const relation of getRelations(config, table.table)) {
+      if (!declared.includes(relation.name)) continue;
+      methods.push(...nestedMethods(config, table, relation));
+    }
+
+    return `    ${table.table}: {\n${methods
+      .map((m) => `      ${m}`)
+      .join("\n")}\n    },`;
+  });
+
+  return `
+  return {
+${resources.join("\n")}
+  };
+`;
+}
+
+function nestedMethods(
+  config: MockliteConfig,
+  table: TableSchema,
+  relation: Relation
+) {
+  const target = typeName(relation.table);
+  const path = `\`/${table.table}/\${id}/${relation.name}\``;
+  const suffix = relation.name[0]!.toUpperCase() + relation.name.slice(1);
+  const related = config.schema.find((t) => t.table === relation.table)!;
+
+  if (isToOne(relation)) {
+    const methods = [
+      `get${suffix}: (id: number) => request<${target}>("GET", ${path}),`,
+    ];
+    if (relation.kind === "hasOne") {
+      methods.push(
+        `create${suffix}: (id: number, body: Partial<${target}Input>) => request<${target}>("POST", ${path}, undefined, body),`
+      );
+    }
+    return methods;
+  }
+
+  const list =
+    resolvePagination(config, related).envelope === "array"
+      ? `${target}[]`
+      : `ListResponse<${target}>`;
+  return [
+    `list${suffix}: (id: number, query?: ListQuery) => request<${list}>("GET", ${path}, query),`,
+    `create${suffix}: (id: number, body: Partial<${target}Input>) => request<${target}>("POST", ${path}, undefined, body),`,
+  ];
+}
+
+function isToOne(relation: Relation) {
+  return relation.kind === "belongsTo" || relation.kind === "hasOne";
+}
@@ -1,14 +1,233 @@
+import type { Faker } from "@faker-js/faker";
+import type { Kysely } from "kysely";
+
+/**
+ * The logical column types a field can be stored as.
+ * Booleans are stored as 0/1, JSON and datetimes as text.
+ */
+export type SqlType =
+  | "integer"
+  | "real"
+  | "text"
+  | "boolean"
+  | "json"
+  | "datetime";
+
+/**
+ * A custom value generator, for config files written in JavaScript or TypeScript.
+ *
+ * @param faker - The Faker instance (seeded like the Faker paths).
+ * @param row - The values generated so far for this row, in field order.
+ * @param index - The position of the row in the seeded table.
+ * @returns The field value.
+ */
+export type FieldGenerator = (
+  faker: Faker,
+  row: Record<string, unknown>,
+  index: number
+) => unknown;
+
+/**
+ * How the seeder spreads generated rows over the parent rows of an FK field.
+ */
+export interface ForeignKeyDistribution {
+  /** Fewest rows per parent (default: 0); without `max`, the rest of `seed` goes to random parents. */
+  min?: number;
+  /** Most rows per parent; the table's row count then follows from its parents instead of `seed`. */
+  max?: number;
+  /** Zipf exponent: the higher, the more rows go to the first parents (default: 0, uniform). */
+  skew?: number;
+}
+
+/**
+ * Object form of a field definition, with an explicit column type and constraints.
+ */
+export interface FieldDefinition {
+  type: string | FieldGenerator;
+  options?: Record<string, unknown>;
+  values?: (string | number)[];
+  /** The text of a `template` field, with `{{field}}` and `{{relation.field}}` placeholders. */
+  value?: string;
+  /** Column type; inferred from a sample generated value when omitted. */
+  sqlType?: SqlType;
+  /** Whether the column accepts NULL (default: true). */
+  nullable?: boolean;
+  unique?: boolean;
+  default?: unknown;
+  /** Create an index on the column. */
+  index?: boolean;
+  /** For FK fields; a `unique` FK links each parent to at most one row. */
+  distribution?: ForeignKeyDistribution;
+}
+
 /**
  * Represents the definition of a field in the schema.
- * Can be a string (Faker path, "pk", "fk:...") or an object configuration.
+ * Can be a string (Faker path, "pk", "fk:...", a "$field" reference), a generator function or an object configuration.
+ */
+export type FieldType = string | FieldGenerator | FieldDefinition;
+
+/**
+ * What happens to referencing rows when a referenced row is deleted.
+ */
+export type OnDeleteAction = "cascade" | "restrict" | "set null";
+
+/**
+ * An explicitly declared relation between two tables.
+ * Declarations name relations and choose delete behavior; the columns
+ * themselves are still defined with `fk:` fields.
+ */
+export interface RelationDefinition {
+  /** Name used by `include`, filters and nested routes. */
+  name: string;
+  kind: "belongsTo" | "hasOne" | "hasMany" | "manyToMany";
+  /** The related table. */
+  table: string;
+  /**
+   * The FK field: on this table for belongsTo, on the related table for hasOne/hasMany,
+   * and on the join table (pointing at this table) for manyToMany.
+   * Defaults to the only FK field linking the two tables.
+   */
+  foreignKey?: string;
+  /** The join table of a manyToMany relation. */
+  through?: string;
+  /** Delete behavior of the FK column (default: "cascade"). */
+  onDelete?: OnDeleteAction;
+}
+
+/**
+ * Controls how list endpoints paginate and shape their responses.
+ */
+export interface PaginationOptions {
+  /** Pagination used when the request does not pick one with `page` or `after`/`first` (default: "offset"). */
+  style?: "offset" | "cursor";
+  /** Response body: `{ data, meta }` ("envelope") or a bare JSON array ("array"). */
+  envelope?: "envelope" | "array";
+  /** Send the total row count in an `X-Total-Count` header. */
+  totalHeader?: boolean;
+  /** Send an RFC 8288 `Link` header with first/prev/next/last URLs. */
+  linkHeader?: boolean;
+  /** Page size when the request does not set one (default: 10). */
+  defaultLimit?: number;
+  /** Largest page size a request can ask for (default: 100). */
+  maxLimit?: number;
+}
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/**
+ * A custom endpoint with a templated response.
+ * Strings in `headers` and `body` may contain `{{ }}` expressions; see `renderTemplate`.
+ */
+export interface RouteDefinition {
+  /** HTTP method (default: "GET"). */
+  method?: HttpMethod;
+  /** Route path; `:name` segments are available as `params.name`. */
+  path: string;
+  /** Response status (default: 200). */
+  status?: number;
+  headers?: Record<string, string>;
+  /** Response body template; omit for an empty response. */
+  body?: unknown;
+}
+
+/**
+ * How long a simulated request waits, in milliseconds: a fixed number,
+ * a uniform range (`min`-`max`), or a normal distribution (`mean` +/- `jitter` standard deviation).
+ */
+export type Latency =
+  | number
+  | { min: number; max: number }
+  | { mean: number; jitter: number };
+
+/**
+ * A response a network rule sends instead of the real one.
+ */
+export interface SimulatedError {
+  status: number;
+  /** Response body (default: `{ "error": "<status text>" }`). */
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Seconds sent in the `Retry-After` header. */
+  retryAfter?: number;
+  /** Relative chance of this error being picked (default: 1). */
+  weight?: number;
+}
+
+/**
+ * Simulated network conditions for the requests matching `method` and `path`.
+ * The first matching rule applies.
+ */
+export interface NetworkRule {
+  /** Methods the rule applies to (default: all). */
+  method?: HttpMethod | HttpMethod[];
+  /** Path glob: `*` matches a segment, `**` any number of segments (default: all paths). */
+  path?: string;
+  /** Also apply to the internal endpoints (`/`, `/docs`, `/openapi.json`, `/__mocklite`). */
+  internal?: boolean;
+  latency?: Latency;
+  /** Probability (0-1) of answering with one of `errors`. */
+  errorRate?: number;
+  /** The errors to pick from (default: a single 500). */
+  errors?: SimulatedError[];
+  /** Probability (0-1) of answering 504 after `timeoutAfter` ms. */
+  timeoutRate?: number;
+  /** Milliseconds before a timed out request is answered (default: 5000). */
+  timeoutAfter?: number;
+  /** Probability (0-1) of never answering; the request stays open until the client gives up. */
+  hangRate?: number;
+  /** Response throughput in bytes per second. */
+  bandwidth?: number;
+}
+
+/**
+ * What a table hook knows about the request that triggered it.
+ */
+export interface HookContext {
+  table: string;
+  request: Request;
+  /** Path parameters (e.g., `id`). */
+  params: Record<string, string>;
+  query: Record<string, string>;
+  /** The database, shared with the generated routes. */
+  db: Kysely<any>;
+}
+
+/**
+ * A row passed to a hook. Hooks may change it in place or return a replacement.
+ */
+export type HookRow = Record<string, unknown>;
+
+/**
+ * Lifecycle hooks of a table, for config files written in JavaScript or TypeScript.
+ * Any hook can return a `Response` to send it instead of the generated one.
+ */
+export interface TableHooks {
+  /** Runs before every generated route of the table. */
+  onRequest?: (context: HookContext) => MaybePromise<Response | void>;
+  /** Runs on a validated body before it is inserted. */
+  beforeCreate?: (
+    row: HookRow,
+    context: HookContext
+  ) => MaybePromise<HookRow | Response | void>;
+  /** Runs on the validated new state of a row before a PUT or PATCH is written. */
+  beforeUpdate?: (
+    row: HookRow,
+    context: HookContext
+  ) => MaybePromise<HookRow | Response | void>;
+  /** Runs on every row of the table before it is sent. */
+  afterRead?: (
+    row: HookRow,
+    context: HookContext
+  ) => MaybePromise<HookRow | Response | void>;
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * A row inserted as given when seeding. `$key` names the row so that FK fields
+ * of other fixtures can reference it as `"@<key>"`.
  */
-export type FieldType =
-  | string
-  | {
-      type: string;
-      options?: Record<string, unknown>;
-      values?: (string | number)[];
-    };
+export type FixtureRow = Record<string, unknown> & { $key?: string };
 
 /**
  * Represents the schema configuration for a single table.
@@ -16,16 +235,54 @@ export type FieldType =
 export interface TableSchema {
   table: string;
   seed?: number;
+  /** Seed for Faker when generating this table's rows; overrides the global `fakerSeed`. */
+  fakerSeed?: number;
+  /** Named relations; FK fields without a declaration are still inferred. */
+  relations?: RelationDefinition[];
+  /** Overrides the global pagination options for this table. */
+  pagination?: PaginationOptions;
+  hooks?: TableHooks;
+  /** Rows inserted before the generated ones, or a JSON, CSV or NDJSON file to read them from. */
+  fixtures?: FixtureRow[] | string;
   fields: Record<string, FieldType>;
 }
 
+/**
+ * A named data state, applied when the database is seeded.
+ */
+export interface ScenarioDefinition {
+  /** Rows to generate per table; tables not listed keep their own `seed`. */
+  seed?: Record<string, number>;
+  /** Rows inserted after the table's own fixtures, per table. */
+  fixtures?: Record<string, FixtureRow[]>;
+  /** Field values set on every generated row, per table. */
+  overrides?: Record<string, Record<string, unknown>>;
+}
+
 /**
  * The main configuration interface for Mocklite.
  */
 export interface MockliteConfig {
   port?: number;
+  /** Shorthand for a network rule with a fixed `latency` on every request. */
   delay?: number;
+  /** Shorthand for a network rule failing this share of every request with a 500. */
   errorRate?: number;
+  /** Network simulation rules; see `NetworkRule`. */
+  network?: NetworkRule[];
   database?: "sqlite";
+  /** Keep `.mocklite/db.sqlite` between restarts instead of recreating it. */
+  persist?: boolean;
+  /** Seed for Faker so that every run generates identical data. */
+  fakerSeed?: number;
+  pagination?: PaginationOptions;
+  /** Serve a GraphQL endpoint at `/graphql` alongside the REST routes. */
+  graphql?: boolean;
+  /** Custom endpoints; they take precedence over the generated routes. */
+  routes?: RouteDefinition[];
+  /** Token required by the admin API under `/__mocklite` (sent as `Authorization: Bearer <token>`). */
+  adminToken?: string;
+  /** Named data states, selectable with `--scenario` or at runtime. */
+  scenarios?: Record<string, ScenarioDefinition>;
   schema: TableSchema[];
 }
@@ -0,0 +1,1055 @@
+import { extname } from "path";
+import {
+  REFERENCE,
+  TEMPLATE_TYPE,
+  getReferencePaths,
+  resolveReference,
+  sortFields,
+} from "./computed";
+import { SQL_TYPES, parseForeignKey, resolveFakerPath } from "./fields";
+import { DATA_FILE_EXTENSIONS, FIXTURE_KEY } from "./fixtures";
+import { resolveRelation } from "./relations";
+import { EXPRESSION, EXPRESSION_ROOTS, LOOKUP_KEYS } from "./template";
+import type {
+  MockliteConfig,
+  RelationDefinition,
+  SqlType,
+  TableSchema,
+} from "./types";
+
+/**
+ * A single problem found while validating a configuration.
+ */
+export interface ValidationIssue {
+  /** JSON path to the offending value (e.g., "schema[1].fields.authorId"). */
+  path: string;
+  message: string;
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const RELATION_KINDS = ["belongsTo", "hasOne", "hasMany", "manyToMany"];
+const ON_DELETE_ACTIONS = ["cascade", "restrict", "set null"];
+
+const HOOK_NAMES = ["onRequest", "beforeCreate", "beforeUpdate", "afterRead"];
+
+const ROUTE_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+
+const isSeed = (value: unknown) =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+/**
+ * Validates a raw configuration object against the Mocklite config shape.
+ * Collects every problem instead of stopping at the first one.
+ *
+ * @param config - The parsed configuration file contents.
+ * @returns The list of issues found (empty if the config is valid).
+ */
+export function validateConfig(config: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const report = (path: string, message: string) =>
+    issues.push({ path, message });
+
+  if (!isPlainObject(config)) {
+    report("$", "Config must be a JSON object");
+    return issues;
+  }
+
+  if (config.port !== undefined) {
+    const port = config.port;
+    if (
+      typeof port !== "number" ||
+      !Number.isInteger(port) ||
+      port < 1 ||
+      port > 65535
+    ) {
+      report("port", "Must be an integer between 1 and 65535");
+    }
+  }
+
+  if (config.delay !== undefined) {
+    if (typeof config.delay !== "number" || config.delay < 0) {
+      report("delay", "Must be a non-negative number of milliseconds");
+    }
+  }
+
+  if (config.errorRate !== undefined) {
+    const rate = config.errorRate;
+    if (typeof rate !== "number" || rate < 0 || rate > 1) {
+      report("errorRate", "Must be a number between 0 and 1");
+    }
+  }
+
+  if (config.database !== undefined && config.database !== "sqlite") {
+    report("database", 'Only "sqlite" is supported');
+  }
+
+  if (config.persist !== undefined && typeof config.persist !== "boolean") {
+    report("persist", "Must be a boolean");
+  }
+
+  if (config.fakerSeed !== undefined && !isSeed(config.fakerSeed)) {
+    report("fakerSeed", "Must be a non-negative integer");
+  }
+
+  if (
+    config.adminToken !== undefined &&
+    (typeof config.adminToken !== "string" || config.adminToken === "")
+  ) {
+    report("adminToken", "Must be a non-empty string");
+  }
+
+  if (config.graphql !== undefined && typeof config.graphql !== "boolean") {
+    report("graphql", "Must be a boolean");
+  }
+
+  if (config.pagination !== undefined) {
+    validatePagination(config.pagination, "pagination", report);
+  }
+
+  if (config.network !== undefined) {
+    validateNetwork(config.network, report);
+  }
+
+  if (!Array.isArray(config.schema)) {
+    report("schema", "Must be an array of table definitions");
+    return issues;
+  }
+
+  // First pass: collect table names and columns so FK targets can be checked
+  const tables = new Map<string, Set<string>>();
+  config.schema.forEach((table, index) => {
+    if (!isPlainObject(table) || typeof table.table !== "string") return;
+    if (tables.has(table.table)) {
+      report(`schema[${index}].table`, `Duplicate table name "${table.table}"`);
+      return;
+    }
+    const columns = isPlainObject(table.fields)
+      ? Object.keys(table.fields)
+      : [];
+    tables.set(table.table, new Set(columns));
+  });
+
+  if (config.routes !== undefined) {
+    validateRoutes(config.routes, tables, report);
+  }
+
+  if (config.scenarios !== undefined) {
+    validateScenarios(config.scenarios, tables, report);
+  }
+
+  config.schema.forEach((table, index) => {
+    const base = `schema[${index}]`;
+
+    if (!isPlainObject(table)) {
+      report(base, "Table definition must be an object");
+      return;
+    }
+
+    if (typeof table.table !== "string") {
+      report(`${base}.table`, "Table name is required and must be a string");
+    } else if (!IDENTIFIER.test(table.table)) {
+      report(`${base}.table`, `"${table.table}" is not a valid identifier`);
+    }
+
+    if (table.seed !== undefined) {
+      const seed = table.seed;
+      if (typeof seed !== "number" || !Number.isInteger(seed) || seed < 0) {
+        report(`${base}.seed`, "Must be a non-negative integer");
+      }
+    }
+
+    if (table.fakerSeed !== undefined && !isSeed(table.fakerSeed)) {
+      report(`${base}.fakerSeed`, "Must be a non-negative integer");
+    }
+
+    if (table.pagination !== undefined) {
+      validatePagination(table.pagination, `${base}.pagination`, report);
+    }
+
+    if (!isPlainObject(table.fields)) {
+      report(
+        `${base}.fields`,
+        "Must be an object mapping field names to types"
+      );
+      return;
+    }
+
+    const entries = Object.entries(table.fields);
+    if (entries.length === 0) {
+      report(`${base}.fields`, "Table must define at least one field");
+    }
+
+    const primaryKeys = entries.filter(([, def]) => def === "pk");
+    if (primaryKeys.length > 1) {
+      report(`${base}.fields`, "Only one field can be the primary key");
+    }
+
+    const spreads = entries.filter(
+      ([, def]) =>
+        isPlainObject(def) &&
+        isPlainObject(def.distribution) &&
+        (def.distribution.min !== undefined ||
+          def.distribution.max !== undefined)
+    );
+    if (spreads.length > 1) {
+      report(
+        `${base}.fields`,
+        'Only one FK field can set a distribution "min" or "max", since it decides the row count'
+      );
+    }
+
+    for (const [fieldName, def] of entries) {
+      const fieldPath = `${base}.fields.${fieldName}`;
+
+      if (!IDENTIFIER.test(fieldName)) {
+        report(fieldPath, `"${fieldName}" is not a valid identifier`);
+      }
+
+      validateField(def, fieldPath, tables, report);
+    }
+
+    if (table.relations !== undefined) {
+      validateRelations(table.relations, table.fields, base, tables, report);
+    }
+
+    if (table.fixtures !== undefined) {
+      const fixtures = table.fixtures;
+      if (typeof fixtures === "string") {
+        if (!DATA_FILE_EXTENSIONS.includes(extname(fixtures).toLowerCase())) {
+          report(
+            `${base}.fixtures`,
+            `File must end with ${DATA_FILE_EXTENSIONS.join(", ")}`
+          );
+        }
+      } else if (!Array.isArray(fixtures)) {
+        report(`${base}.fixtures`, "Must be an array of rows or a file path");
+      } else if (typeof table.table === "string") {
+        validateFixtureRows(
+          fixtures,
+          `${base}.fixtures`,
+          tables.get(table.table) ?? new Set(),
+          report
+        );
+      }
+    }
+
+    if (table.hooks !== undefined) {
+      validateHooks(table.hooks, `${base}.hooks`, report);
+    }
+  });
+
+  // Resolving declarations needs well-formed tables and fields, so only try it on an otherwise valid config
+  if (issues.length === 0) {
+    const schema = config.schema as TableSchema[];
+    schema.forEach((table, index) => {
+      (table.relations ?? []).forEach((declaration, i) => {
+        try {
+          resolveRelation({ schema }, table, declaration);
+        } catch (error) {
+          report(
+            `schema[${index}].relations[${i}]`,
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+      });
+    });
+  }
+
+  // References may name declared relations, so they are checked once those resolve
+  if (issues.length === 0) {
+    const schema = config.schema as TableSchema[];
+    schema.forEach((table, index) => {
+      validateReferences({ schema }, table, `schema[${index}]`, report);
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Checks that the references of a table's computed fields resolve and do not form a cycle.
+ *
+ * @param config - The configuration, otherwise valid.
+ * @param table - The table definition.
+ * @param base - The JSON path of the table.
+ * @param report - Callback used to record issues.
+ */
+function validateReferences(
+  config: MockliteConfig,
+  table: TableSchema,
+  base: string,
+  report: (path: string, message: string) => void
+) {
+  let resolved = true;
+  for (const [name, def] of Object.entries(table.fields)) {
+    for (const path of getReferencePaths(def)) {
+      try {
+        resolveReference(config, table, path);
+      } catch (error) {
+        resolved = false;
+        report(
+          `${base}.fields.${name}`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+  }
+  if (!resolved) return;
+
+  const { cycle } = sortFields(config, table);
+  if (cycle) {
+    report(
+      `${base}.fields`,
+      `Fields reference each other in a cycle: ${cycle.join(" → ")}`
+    );
+  }
+}
+
+/**
+ * Validates the shape of a table's relation declarations.
+ *
+ * @param relations - The raw relation declarations.
+ * @param fields - The table's raw field definitions, to catch name clashes.
+ * @param base - The JSON path of the table.
+ * @param tables - Known tables and their columns.
+ * @param report - Callback used to record issues.
+ */
+function validateRelations(
+  relations: unknown,
+  fields: Record<string, unknown>,
+  base: string,
+  tables: Map<string, Set<string>>,
+  report: (path: string, message: string) => void
+) {
+  if (!Array.isArray(relations)) {
+    report(`${base}.relations`, "Must be an array of relation declarations");
+    return;
+  }
+
+  const names = new Set<string>();
+  relations.forEach((relation, index) => {
+    const path = `${base}.relations[${index}]`;
+
+    if (!isPlainObject(relation)) {
+      report(path, "Relation declaration must be an object");
+      return;
+    }
+
+    const { name, kind, table, foreignKey, through, onDelete } =
+      relation as Partial<Record<keyof RelationDefinition, unknown>>;
+
+    if (typeof name !== "string" || !IDENTIFIER.test(name)) {
+      report(`${path}.name`, "Must be a valid identifier");
+    } else if (names.has(name)) {
+      report(`${path}.name`, `Duplicate relation name "${name}"`);
+    } else if (fields[name] !== undefined) {
+      report(`${path}.name`, `"${name}" is already a field of this table`);
+    } else {
+      names.add(name);
+    }
+
+    if (!RELATION_KINDS.includes(kind as string)) {
+      report(`${path}.kind`, `Must be one of: ${RELATION_KINDS.join(", ")}`);
+    }
+
+    if (typeof table !== "string" || !tables.has(table)) {
+      report(`${path}.table`, `Related table "${table}" does not exist`);
+    }
+
+    if (foreignKey !== undefined && typeof foreignKey !== "string") {
+      report(`${path}.foreignKey`, "Must be a string");
+    }
+
+    if (kind === "manyToMany") {
+      if (typeof through !== "string" || !tables.has(through)) {
+        report(`${path}.through`, "manyToMany relations require a join table");
+      }
+    } else if (through !== undefined) {
+      report(`${path}.through`, "Only manyToMany relations use a join table");
+    }
+
+    if (
+      onDelete !== undefined &&
+      !ON_DELETE_ACTIONS.includes(onDelete as string)
+    ) {
+      report(
+        `${path}.onDelete`,
+        `Must be one of: ${ON_DELETE_ACTIONS.join(", ")}`
+      );
+    }
+  });
+}
+
+/**
+ * Validates a table's lifecycle hooks.
+ *
+ * @param hooks - The raw hooks object.
+ * @param path - The JSON path of the hooks.
+ * @param report - Callback used to record issues.
+ */
+function validateHooks(
+  hooks: unknown,
+  path: string,
+  report: (path: string, message: string) => void
+) {
+  if (!isPlainObject(hooks)) {
+    report(path, "Must be an object of hook functions");
+    return;
+  }
+
+  for (const [name, hook] of Object.entries(hooks)) {
+    if (!HOOK_NAMES.includes(name)) {
+      report(
+        `${path}.${name}`,
+        `Unknown hook; must be one of: ${HOOK_NAMES.join(", ")}`
+      );
+    } else if (typeof hook !== "function") {
+      report(`${path}.${name}`, "Must be a function");
+    }
+  }
+}
+
+/**
+ * Validates network simulation rules.
+ *
+ * @param rules - The raw network rules.
+ * @param report - Callback used to record issues.
+ */
+function validateNetwork(
+  rules: unknown,
+  report: (path: string, message: string) => void
+) {
+  if (!Array.isArray(rules)) {
+    report("network", "Must be an array of network rules");
+    return;
+  }
+
+  const isRate = (value: unknown) =>
+    typeof value === "number" && value >= 0 && value <= 1;
+  const isDuration = (value: unknown) =>
+    typeof value === "number" && value >= 0;
+
+  rules.forEach((rule, index) => {
+    const path = `network[${index}]`;
+    if (!isPlainObject(rule)) {
+      report(path, "Network rule must be an object");
+      return;
+    }
+
+    if (rule.method !== undefined) {
+      const methods = [rule.method].flat();
+      if (methods.some((m) => !ROUTE_METHODS.includes(m as string))) {
+        report(
+          `${path}.method`,
+          `Must be one or a list of: ${ROUTE_METHODS.join(", ")}`
+        );
+      }
+    }
+
+    if (
+      rule.path !== undefined &&
+      (typeof rule.path !== "string" || !rule.path.startsWith("/"))
+    ) {
+      report(`${path}.path`, 'Must be a string starting with "/"');
+    }
+
+    if (rule.internal !== undefined && typeof rule.internal !== "boolean") {
+      report(`${path}.internal`, "Must be a boolean");
+    }
+
+    if (rule.latency !== undefined) {
+      const latency = rule.latency;
+      const valid = isPlainObject(latency)
+        ? "min" in latency
+          ? isDuration(latency.min) &&
+            isDuration(latency.max) &&
+            (latency.max as number) >= (latency.min as number)
+          : isDuration(latency.mean) && isDuration(latency.jitter)
+        : isDuration(latency);
+      if (!valid) {
+        report(
+          `${path}.latency`,
+          "Must be milliseconds, { min, max } or { mean, jitter }"
+        );
+      }
+    }
+
+    for (const key of ["errorRate", "timeoutRate", "hangRate"]) {
+      if (rule[key] !== undefined && !isRate(rule[key])) {
+        report(`${path}.${key}`, "Must be a number between 0 and 1");
+      }
+    }
+
+    if (rule.timeoutAfter !== undefined && !isDuration(rule.timeoutAfter)) {
+      report(
+        `${path}.timeoutAfter`,
+        "Must be a non-negative number of milliseconds"
+      );
+    }
+
+    if (
+      rule.bandwidth !== undefined &&
+      (typeof rule.bandwidth !== "number" || rule.bandwidth <= 0)
+    ) {
+      report(
+        `${path}.bandwidth`,
+        "Must be a positive number of bytes per second"
+      );
+    }
+
+    if (rule.errors !== undefined) {
+      if (!Array.isArray(rule.errors) || rule.errors.length === 0) {
+        report(`${path}.errors`, "Must be a non-empty array of errors");
+        return;
+      }
+
+      rule.errors.forEach((error, i) => {
+        const errorPath = `${path}.errors[${i}]`;
+        if (!isPlainObject(error)) {
+          report(errorPath, "Error must be an object");
+          return;
+        }
+        const status = error.status;
+        if (
+          typeof status !== "number" ||
+          !Number.isInteger(status) ||
+          status < 400 ||
+          status > 599
+        ) {
+          report(
+            `${errorPath}.status`,
+            "Must be an integer between 400 and 599"
+          );
+        }
+        if (
+          error.headers !== undefined &&
+          (!isPlainObject(error.headers) ||
+            Object.values(error.headers).some((v) => typeof v !== "string"))
+        ) {
+          report(`${errorPath}.headers`, "Must be an object of string values");
+        }
+        if (error.retryAfter !== undefined && !isDuration(error.retryAfter)) {
+          report(
+            `${errorPath}.retryAfter`,
+            "Must be a non-negative number of seconds"
+          );
+        }
+        if (
+          error.weight !== undefined &&
+          (typeof error.weight !== "number" || error.weight <= 0)
+        ) {
+          report(`${errorPath}.weight`, "Must be a positive number");
+        }
+      });
+    }
+  });
+}
+
+/**
+ * Validates scenario definitions against the known tables and columns.
+ *
+ * @param scenarios - The raw scenarios object.
+ * @param tables - Known tables and their columns.
+ * @param report - Callback used to record issues.
+ */
+function validateScenarios(
+  scenarios: unknown,
+  tables: Map<string, Set<string>>,
+  report: (path: string, message: string) => void
+) {
+  if (!isPlainObject(scenarios)) {
+    report("scenarios", "Must be an object of scenario definitions");
+    return;
+  }
+
+  // Each section maps table names to a value; unknown tables are reported for all of them
+  const eachTable = (
+    section: unknown,
+    path: string,
+    check: (value: unknown, path: string, columns: Set<string>) => void
+  ) => {
+    if (section === undefined) return;
+    if (!isPlainObject(section)) {
+      report(path, "Must be an object keyed by table name");
+      return;
+    }
+    for (const [tableName, value] of Object.entries(section)) {
+      const columns = tables.get(tableName);
+      if (!columns) {
+        report(`${path}.${tableName}`, `Unknown table "${tableName}"`);
+      } else {
+        check(value, `${path}.${tableName}`, columns);
+      }
+    }
+  };
+
+  const checkColumns = (
+    row: Record<string, unknown>,
+    path: string,
+    columns: Set<string>
+  ) => {
+    for (const key of Object.keys(row)) {
+      if (!columns.has(key)) report(`${path}.${key}`, `Unknown field "${key}"`);
+    }
+  };
+
+  for (const [name, scenario] of Object.entries(scenarios)) {
+    const path = `scenarios.${name}`;
+    if (!isPlainObject(scenario)) {
+      report(path, "Scenario definition must be an object");
+      continue;
+    }
+
+    eachTable(scenario.seed, `${path}.seed`, (count, countPath) => {
+      if (!isSeed(count)) report(countPath, "Must be a non-negative integer");
+    });
+
+    eachTable(
+      scenario.fixtures,
+      `${path}.fixtures`,
+      (rows, rowsPath, columns) => {
+        if (!Array.isArray(rows)) {
+          report(rowsPath, "Must be an array of rows");
+        } else {
+          validateFixtureRows(rows, rowsPath, columns, report);
+        }
+      }
+    );
+
+    eachTable(
+      scenario.overrides,
+      `${path}.overrides`,
+      (values, valuesPath, columns) => {
+        if (!isPlainObject(values)) {
+          report(valuesPath, "Must be an object of field values");
+        } else {
+          checkColumns(values, valuesPath, columns);
+        }
+      }
+    );
+  }
+}
+
+/**
+ * Validates fixture rows: each must be an object of known fields, with an optional string `$key`.
+ *
+ * @param rows - The raw fixture rows.
+ * @param path - The JSON path of the rows.
+ * @param columns - The columns of the table.
+ * @param report - Callback used to record issues.
+ */
+function validateFixtureRows(
+  rows: unknown[],
+  path: string,
+  columns: Set<string>,
+  report: (path: string, message: string) => void
+) {
+  rows.forEach((row, index) => {
+    const rowPath = `${path}[${index}]`;
+    if (!isPlainObject(row)) {
+      report(rowPath, "Row must be an object");
+      return;
+    }
+
+    for (const [key, value] of Object.entries(row)) {
+      if (key === FIXTURE_KEY) {
+        if (typeof value !== "string" || value === "") {
+          report(`${rowPath}.${key}`, "Must be a non-empty string");
+        }
+      } else if (!columns.has(key)) {
+        report(`${rowPath}.${key}`, `Unknown field "${key}"`);
+      }
+    }
+  });
+}
+
+/**
+ * Validates custom route definitions and their response templates.
+ *
+ * @param routes - The raw route definitions.
+ * @param tables - Known tables, used to check lookups.
+ * @param report - Callback used to record issues.
+ */
+function validateRoutes(
+  routes: unknown,
+  tables: Map<string, Set<string>>,
+  report: (path: string, message: string) => void
+) {
+  if (!Array.isArray(routes)) {
+    report("routes", "Must be an array of route definitions");
+    return;
+  }
+
+  const seen = new Set<string>();
+  routes.forEach((route, index) => {
+    const path = `routes[${index}]`;
+    if (!isPlainObject(route)) {
+      report(path, "Route definition must be an object");
+      return;
+    }
+
+    if (typeof route.path !== "string" || !route.path.startsWith("/")) {
+      report(`${path}.path`, 'Must be a string starting with "/"');
+    }
+
+    if (
+      route.method !== undefined &&
+      !ROUTE_METHODS.includes(route.method as string)
+    ) {
+      report(`${path}.method`, `Must be one of: ${ROUTE_METHODS.join(", ")}`);
+    }
+
+    const key = `${route.method ?? "GET"} ${route.path}`;
+    if (seen.has(key)) {
+      report(path, `Duplicate route "${key}"`);
+    }
+    seen.add(key);
+
+    if (route.status !== undefined) {
+      const status = route.status;
+      if (
+        typeof status !== "number" ||
+        !Number.isInteger(status) ||
+        status < 200 ||
+        status > 599
+      ) {
+        report(`${path}.status`, "Must be an integer between 200 and 599");
+      }
+    }
+
+    if (route.headers !== undefined) {
+      if (
+        !isPlainObject(route.headers) ||
+        Object.values(route.headers).some((v) => typeof v !== "string")
+      ) {
+        report(`${path}.headers`, "Must be an object of string values");
+      } else {
+        validateTemplate(route.headers, `${path}.headers`, tables, report);
+      }
+    }
+
+    if (route.body !== undefined) {
+      validateTemplate(route.body, `${path}.body`, tables, report);
+    }
+  });
+}
+
+/**
+ * Checks the expressions and lookups in a response template.
+ *
+ * @param template - The raw template value.
+ * @param path - The JSON path of the value.
+ * @param tables - Known tables, used to check lookups.
+ * @param report - Callback used to record issues.
+ */
+function validateTemplate(
+  template: unknown,
+  path: string,
+  tables: Map<string, Set<string>>,
+  report: (path: string, message: string) => void
+) {
+  if (typeof template === "string") {
+    for (const [, expression] of template.matchAll(EXPRESSION)) {
+      const root = expression!.split(".")[0]!;
+      if (!EXPRESSION_ROOTS.includes(root)) {
+        report(
+          path,
+          `Unknown expression "${expression}"; must start with ${EXPRESSION_ROOTS.join(
+            ", "
+          )}`
+        );
+      } else if (root === "faker" && !resolveFakerPath(expression!)) {
+        report(path, `Faker method "${expression}" does not exist`);
+      }
+    }
+    return;
+  }
+
+  if (Array.isArray(template)) {
+    template.forEach((item, i) =>
+      validateTemplate(item, `${path}[${i}]`, tables, report)
+    );
+    return;
+  }
+
+  if (!isPlainObject(template)) return;
+
+  const keys = LOOKUP_KEYS.filter((k) => k in template);
+  if (keys.length === 0) {
+    for (const [name, value] of Object.entries(template)) {
+      validateTemplate(value, `${path}.${name}`, tables, report);
+    }
+    return;
+  }
+
+  const key = keys[0]!;
+  const extra = Object.keys(template).filter((k) => k !== key && k !== "query");
+  if (keys.length > 1 || extra.length > 0) {
+    report(path, `A ${key} lookup only takes "${key}" and "query"`);
+  }
+
+  const table = template[key];
+  if (typeof table !== "string" || !tables.has(table)) {
+    report(`${path}.${key}`, `Table "${String(table)}" does not exist`);
+  }
+
+  if (template.query !== undefined) {
+    if (!isPlainObject(template.query)) {
+      report(`${path}.query`, "Must be an object of query parameters");
+    } else {
+      validateTemplate(template.query, `${path}.query`, tables, report);
+    }
+  }
+}
+
+/**
+ * Validates pagination options (global or per table).
+ *
+ * @param options - The raw pagination options.
+ * @param path - The JSON path of the options.
+ * @param report - Callback used to record issues.
+ */
+function validatePagination(
+  options: unknown,
+  path: string,
+  report: (path: string, message: string) => void
+) {
+  if (!isPlainObject(options)) {
+    report(path, "Must be an object");
+    return;
+  }
+
+  if (
+    options.style !== undefined &&
+    !["offset", "cursor"].includes(options.style as string)
+  ) {
+    report(`${path}.style`, 'Must be "offset" or "cursor"');
+  }
+
+  if (
+    options.envelope !== undefined &&
+    !["envelope", "array"].includes(options.envelope as string)
+  ) {
+    report(`${path}.envelope`, 'Must be "envelope" or "array"');
+  }
+
+  for (const flag of ["totalHeader", "linkHeader"]) {
+    if (options[flag] !== undefined && typeof options[flag] !== "boolean") {
+      report(`${path}.${flag}`, "Must be a boolean");
+    }
+  }
+
+  for (const key of ["defaultLimit", "maxLimit"]) {
+    const value = options[key];
+    if (
+      value !== undefined &&
+      (typeof value !== "number" || !Number.isInteger(value) || value < 1)
+    ) {
+      report(`${path}.${key}`, "Must be a positive integer");
+    }
+  }
+}
+
+/**
+ * Validates an "fk:<table>.<column>" reference against the known tables.
+ *
+ * @param def - The FK definition string.
+ * @param path - The JSON path of the definition.
+ * @param tables - Known tables and their columns.
+ * @param report - Callback used to record issues.
+ */
+function validateForeignKey(
+  def: string,
+  path: string,
+  tables: Map<string, Set<string>>,
+  report: (path: string, message: string) => void
+) {
+  let ref;
+  try {
+    ref = parseForeignKey(def);
+  } catch {
+    report(
+      path,
+      `Invalid FK definition "${def}", expected "fk:<table>.<column>"`
+    );
+    return;
+  }
+  if (!ref) return;
+
+  const targetColumns = tables.get(ref.table);
+  if (!targetColumns) {
+    report(path, `FK target table "${ref.table}" does not exist`);
+  } else if (!targetColumns.has(ref.column)) {
+    report(
+      path,
+      `FK target column "${ref.table}.${ref.column}" does not exist`
+    );
+  }
+}
+
+/**
+ * Validates the distribution options of an FK field.
+ *
+ * @param def - The FK field definition.
+ * @param path - The JSON path of the distribution.
+ * @param report - Callback used to record issues.
+ */
+function validateDistribution(
+  def: Record<string, unknown>,
+  path: string,
+  report: (path: string, message: string) => void
+) {
+  const distribution = def.distribution;
+  if (!isPlainObject(distribution)) {
+    report(path, "Must be an object with min, max or skew");
+    return;
+  }
+
+  const { min, max, skew } = distribution;
+  if (min !== undefined && !isSeed(min)) {
+    report(`${path}.min`, "Must be a non-negative integer");
+  }
+  if (max !== undefined && !isSeed(max)) {
+    report(`${path}.max`, "Must be a non-negative integer");
+  }
+  if (isSeed(min) && isSeed(max) && (max as number) < (min as number)) {
+    report(`${path}.max`, 'Must be at least "min"');
+  }
+  if (skew !== undefined && (typeof skew !== "number" || skew < 0)) {
+    report(`${path}.skew`, "Must be a non-negative number");
+  }
+  if (max !== undefined && skew !== undefined) {
+    report(path, 'Use either "skew" or "max", not both');
+  }
+  if ((min !== undefined || max !== undefined) && def.unique === true) {
+    report(path, "A unique FK already has at most one row per parent");
+  }
+}
+
+/**
+ * Validates a single field definition.
+ *
+ * @param def - The raw field definition.
+ * @param path - The JSON path of the field.
+ * @param tables - Known tables and their columns, used to check FK targets.
+ * @param report - Callback used to record issues.
+ */
+function validateField(
+  def: unknown,
+  path: string,
+  tables: Map<string, Set<string>>,
+  report: (path: string, message: string) => void
+) {
+  // Generator functions (JS/TS configs) can only be checked by running them
+  if (typeof def === "function") return;
+
+  if (typeof def === "string") {
+    if (def === "pk") return;
+
+    if (def.startsWith("fk:")) {
+      validateForeignKey(def, path, tables, report);
+      return;
+    }
+
+    if (def.startsWith("faker.") && !resolveFakerPath(def)) {
+      report(path, `Unknown Faker method "${def}"`);
+    }
+    return;
+  }
+
+  if (!isPlainObject(def)) {
+    report(
+      path,
+      'Field must be a string, a function or an object with a "type"'
+    );
+    return;
+  }
+
+  if (typeof def.type !== "string" && typeof def.type !== "function") {
+    report(
+      `${path}.type`,
+      "Field type is required and must be a string or a function"
+    );
+    return;
+  }
+
+  if (
+    def.sqlType !== undefined &&
+    !SQL_TYPES.includes(def.sqlType as SqlType)
+  ) {
+    report(`${path}.sqlType`, `Must be one of: ${SQL_TYPES.join(", ")}`);
+  }
+
+  for (const flag of ["nullable", "unique", "index"]) {
+    if (def[flag] !== undefined && typeof def[flag] !== "boolean") {
+      report(`${path}.${flag}`, "Must be a boolean");
+    }
+  }
+
+  if (def.default === null && def.nullable === false) {
+    report(`${path}.default`, "Cannot be null on a non-nullable field");
+  }
+
+  if (typeof def.type === "string" && def.type.startsWith("fk:")) {
+    validateForeignKey(def.type, `${path}.type`, tables, report);
+    if (def.distribution !== undefined) {
+      validateDistribution(def, `${path}.distribution`, report);
+    }
+    return;
+  }
+
+  if (def.distribution !== undefined) {
+    report(`${path}.distribution`, "Only FK fields have a distribution");
+  }
+
+  if (def.type === "enum") {
+    const values = def.values;
+    if (!Array.isArray(values) || values.length === 0) {
+      report(
+        `${path}.values`,
+        'Enum fields require a non-empty "values" array'
+      );
+    } else {
+      values.forEach((value, i) => {
+        if (typeof value !== "string" && typeof value !== "number") {
+          report(
+            `${path}.values[${i}]`,
+            "Enum values must be strings or numbers"
+          );
+        }
+      });
+    }
+    return;
+  }
+
+  if (typeof def.type === "function") return;
+
+  if (def.type === TEMPLATE_TYPE) {
+    if (typeof def.value !== "string") {
+      report(`${path}.value`, 'Template fields require a string "value"');
+      return;
+    }
+    for (const [, expression] of def.value.matchAll(EXPRESSION)) {
+      if (expression!.startsWith("faker.") && !resolveFakerPath(expression!)) {
+        report(`${path}.value`, `Faker method "${expression}" does not exist`);
+      }
+    }
+    return;
+  }
+
+  // Copies of another value; the path is checked once all tables are known
+  if (REFERENCE.test(def.type)) return;
+
+  if (def.type.startsWith("faker.")) {
+    if (!resolveFakerPath(def.type)) {
+      report(`${path}.type`, `Unknown Faker method "${def.type}"`);
+    }
+    return;
+  }
+
+  report(`${path}.type`, `Unknown field type "${def.type}"`);
+}
@@ -1,7 +1,7 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["bin/mocklite.ts"],
+  entry: { mocklite: "bin/mocklite.ts", index: "index.ts" },
   format: ["cjs"],
   clean: true,
   shims: true,